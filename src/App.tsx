@@ -1,13 +1,20 @@
-import { useState } from 'react';
-import { ThemeProvider } from './contexts/ThemeContext';
+import { useState, useEffect, useCallback } from 'react';
+import { ThemeProvider, useTheme } from './contexts/ThemeContext';
 import TabNavigation from './components/TabNavigation';
 import PersoTab from './components/PersoTab';
 import GitHubTab from './components/GitHubTab';
 import GmailTab from './components/GmailTab';
+import AgendaTab from './components/AgendaTab';
 import InfoModal from './components/InfoModal';
+import BackupModal from './components/BackupModal';
 import ThemeToggle from './components/ThemeToggle';
+import CommandPalette from './components/CommandPalette';
+import type { PaletteCommand } from './components/CommandPalette';
 import type { GitHubIssue } from './services/githubService';
 import type { GmailEmail } from './services/gmailService';
+import type { PanelFocus, PanelAction } from './services/storageService';
+import { getPanelFocus, savePanelFocus, getPanelAction, savePanelAction, saveFetchedIssues, saveFetchedEmails } from './services/storageService';
+import type { QuickAddRequest } from './services/quickAddService';
 
 interface CacheState {
   githubIssues: GitHubIssue[];
@@ -18,9 +25,25 @@ interface CacheState {
   gmailAuthenticated: boolean;
 }
 
+const focusTabs: Record<PanelFocus['type'], string> = {
+  todo: 'perso',
+  issue: 'github',
+  email: 'gmail',
+};
+
+const paletteTabs = [
+  { id: 'perso', label: 'Perso' },
+  { id: 'agenda', label: 'Agenda' },
+  { id: 'github', label: 'GitHub' },
+  { id: 'gmail', label: 'Gmail' },
+];
+
 function AppContent() {
+  const { isDark, toggleTheme } = useTheme();
   const [activeTab, setActiveTab] = useState('perso');
   const [showInfoModal, setShowInfoModal] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
   const [cache, setCache] = useState<CacheState>({
     githubIssues: [],
     gmailEmails: [],
@@ -29,6 +52,80 @@ function AppContent() {
     gmailToken: null,
     gmailAuthenticated: false,
   });
+  const [panelFocus, setPanelFocus] = useState<PanelFocus | null>(null);
+  const [quickAddRequest, setQuickAddRequest] = useState<QuickAddRequest | null>(null);
+
+  // Show an item in its tab
+  const showItem = useCallback((focus: PanelFocus) => {
+    setActiveTab(focusTabs[focus.type]);
+    setPanelFocus(focus);
+  }, []);
+
+  // Focus the quick-add bar of the Perso tab
+  const requestQuickAdd = useCallback((text: string) => {
+    setActiveTab('perso');
+    setQuickAddRequest({ text, requestedAt: Date.now() });
+  }, []);
+
+  // Items and actions can be requested from outside the panel (omnibox, keyboard shortcuts)
+  useEffect(() => {
+    const handleFocus = (focus: PanelFocus | null) => {
+      if (!focus) return;
+      showItem(focus);
+      savePanelFocus(null);
+    };
+    const handleAction = (action: PanelAction | null) => {
+      if (action !== 'quickAdd') return;
+      requestQuickAdd('');
+      savePanelAction(null);
+    };
+
+    getPanelFocus().then(handleFocus);
+    getPanelAction().then(handleAction);
+    if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return;
+
+    const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName !== 'local') return;
+      if ('panelFocus' in changes) {
+        handleFocus((changes.panelFocus.newValue as PanelFocus | undefined) ?? null);
+      }
+      if ('panelAction' in changes) {
+        handleAction((changes.panelAction.newValue as PanelAction | undefined) ?? null);
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, [showItem, requestQuickAdd]);
+
+  // Ctrl+K / Cmd+K toggles the command palette, wherever the focus is
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'k') return;
+      e.preventDefault();
+      setShowCommandPalette(open => !open);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const focusedId = (type: PanelFocus['type']) => panelFocus?.type === type ? panelFocus.id : undefined;
+  const clearPanelFocus = useCallback(() => setPanelFocus(null), []);
+  const clearQuickAddRequest = useCallback(() => setQuickAddRequest(null), []);
+
+  const paletteCommands: PaletteCommand[] = [
+    ...paletteTabs.map(tab => ({
+      id: `tab-${tab.id}`,
+      label: `Aller à ${tab.label}`,
+      hint: 'Onglet',
+      run: () => setActiveTab(tab.id),
+    })),
+    { id: 'quickAdd', label: 'Nouvelle tâche', hint: 'Perso', keywords: 'ajouter créer', run: () => requestQuickAdd('') },
+    { id: 'theme', label: isDark ? 'Passer en mode clair' : 'Passer en mode sombre', hint: 'Thème', run: toggleTheme },
+    { id: 'settings', label: 'Configuration API', hint: 'Paramètres', keywords: 'réglages github gmail', run: () => setShowInfoModal(true) },
+    { id: 'backup', label: 'Sauvegarde', hint: 'Paramètres', keywords: 'réglages export import', run: () => setShowBackupModal(true) },
+  ];
 
   const updateGitHubCache = (issues: GitHubIssue[]) => {
     setCache(prev => ({
@@ -36,6 +133,7 @@ function AppContent() {
       githubIssues: issues,
       lastGithubFetch: Date.now(),
     }));
+    saveFetchedIssues(issues);
   };
 
   const updateGmailCache = (emails: GmailEmail[]) => {
@@ -44,6 +142,7 @@ function AppContent() {
       gmailEmails: emails,
       lastGmailFetch: Date.now(),
     }));
+    saveFetchedEmails(emails);
   };
 
   const updateGmailAuth = (token: string | null, authenticated: boolean) => {
@@ -57,13 +156,29 @@ function AppContent() {
   const renderActiveTab = () => {
     switch (activeTab) {
       case 'perso':
-        return <PersoTab />;
+        return (
+          <PersoTab
+            focusTodoId={focusedId('todo')}
+            onFocusHandled={clearPanelFocus}
+            quickAddRequest={quickAddRequest ?? undefined}
+            onQuickAddHandled={clearQuickAddRequest}
+          />
+        );
+      case 'agenda':
+        return (
+          <AgendaTab
+            cachedIssues={cache.githubIssues}
+            onUpdateCache={updateGitHubCache}
+          />
+        );
       case 'github':
         return (
           <GitHubTab
             cachedIssues={cache.githubIssues}
             lastFetch={cache.lastGithubFetch}
             onUpdateCache={updateGitHubCache}
+            focusIssueId={focusedId('issue')}
+            onFocusHandled={clearPanelFocus}
           />
         );
       case 'gmail':
@@ -75,10 +190,19 @@ function AppContent() {
             gmailAuthenticated={cache.gmailAuthenticated}
             onUpdateCache={updateGmailCache}
             onUpdateAuth={updateGmailAuth}
+            focusEmailId={focusedId('email')}
+            onFocusHandled={clearPanelFocus}
           />
         );
       default:
-        return <PersoTab />;
+        return (
+          <PersoTab
+            focusTodoId={focusedId('todo')}
+            onFocusHandled={clearPanelFocus}
+            quickAddRequest={quickAddRequest ?? undefined}
+            onQuickAddHandled={clearQuickAddRequest}
+          />
+        );
     }
   };
 
@@ -90,7 +214,29 @@ function AppContent() {
           Todo Manager
         </h1>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowCommandPalette(true)}
+            className="w-7 h-7 flex items-center justify-center rounded-full 
+                                   text-gray-400 hover:text-gray-600 dark:hover:text-gray-300
+                                   hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            title="Commandes (Ctrl+K)"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+          </button>
           <ThemeToggle />
+          <button
+            onClick={() => setShowBackupModal(true)}
+            className="w-7 h-7 flex items-center justify-center rounded-full 
+                                   text-gray-400 hover:text-gray-600 dark:hover:text-gray-300
+                                   hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            title="Sauvegarde"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          </button>
           <button
             onClick={() => setShowInfoModal(true)}
             className="w-7 h-7 flex items-center justify-center rounded-full 
@@ -115,6 +261,19 @@ function AppContent() {
 
       {/* Info Modal */}
       <InfoModal isOpen={showInfoModal} onClose={() => setShowInfoModal(false)} />
+
+      {/* Backup Modal */}
+      {showBackupModal && <BackupModal isOpen onClose={() => setShowBackupModal(false)} />}
+
+      {/* Command Palette */}
+      {showCommandPalette && (
+        <CommandPalette
+          commands={paletteCommands}
+          onQuickAdd={requestQuickAdd}
+          onOpenItem={showItem}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
     </div>
   );
 }
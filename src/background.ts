@@ -1,6 +1,32 @@
 import { fetchColumnCards } from './services/githubService';
 import { fetchEmails } from './services/gmailService';
-import { getGitHubSettings, getTodos } from './services/storageService';
+import { getGitHubSettings, getTodos, addTodo, updateTodo, toggleTodo, getCategories, purgeExpiredTrash, archiveCompletedTodos, getActiveTimer, getFocusSession, getFocusSettings, getFetchedIssues, saveFetchedIssues, getFetchedEmails, saveFetchedEmails, savePanelFocus, savePanelAction, getPomodoros, getFiredReminders, saveFiredReminders } from './services/storageService';
+import { isOverdue } from './services/smartListService';
+import { beginTimer, endTimer, formatBadgeTime } from './services/timeTrackingService';
+import type { TimerMessage } from './services/timeTrackingService';
+import { beginFocus, advanceFocus, endFocus, getRemainingMinutes, FOCUS_PHASE_ALARM } from './services/focusService';
+import type { FocusMessage } from './services/focusService';
+import { getNewlyUnblocked } from './services/dependencyService';
+import type { Todo, PanelFocus } from './services/storageService';
+import { parseOmniboxInput, searchOmnibox, decodeOmniboxTarget, formatOmniboxSuggestion, describeOmniboxInput } from './services/omniboxService';
+import { parseQuickAdd } from './services/quickAddService';
+import { rescheduleReminders, cancelReminders, postponeReminder, reconcileReminders, getExpectedReminders, getReminderKey, getReminderAlarmName } from './services/reminderService';
+import type { ReminderAlarm } from './services/reminderService';
+import { SNOOZE_ALARM_PREFIX, getSnoozeAlarmName, getSnoozeChanges } from './services/snoozeService';
+
+// Refreshes the action badge every minute while a timer or focus session runs
+const BADGE_TICK_ALARM = 'badgeTick';
+
+// Context menu entries, by what the todo is created from
+const captureMenus: { id: string; title: string; context: `${chrome.contextMenus.ContextType}` }[] = [
+    { id: 'captureSelection', title: 'Créer une tâche depuis la sélection', context: 'selection' },
+    { id: 'captureLink', title: 'Créer une tâche depuis ce lien', context: 'link' },
+    { id: 'capturePage', title: 'Créer une tâche depuis cette page', context: 'page' }
+];
+
+const MAX_CAPTURED_TITLE_LENGTH = 200;
+
+const REMINDER_POSTPONE_MINUTES = 10;
 
 // Set sidePanel behavior
 chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true })
@@ -10,8 +36,259 @@ chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true })
 chrome.runtime.onInstalled.addListener(() => {
     console.log('[Background] Extension installed, creating alarms');
     chrome.alarms.create('refreshData', { periodInMinutes: 15 });
+    chrome.alarms.create('overdueCheck', { delayInMinutes: 1, periodInMinutes: 60 });
+    chrome.alarms.create('purgeTrash', { delayInMinutes: 1, periodInMinutes: 24 * 60 });
+    chrome.alarms.create('archiveCompleted', { delayInMinutes: 1, periodInMinutes: 24 * 60 });
+    restoreFocusAlarm().then(updateBadge);
+    restoreSnoozeAlarms();
+    queueReminderTask(reconcileReminderAlarms);
+    buildContextMenus();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+    restoreFocusAlarm().then(updateBadge);
+    restoreSnoozeAlarms();
+    queueReminderTask(reconcileReminderAlarms);
+});
+
+// Timer and focus requests from the side panel
+chrome.runtime.onMessage.addListener((message: TimerMessage | FocusMessage, _sender, sendResponse) => {
+    let handled: Promise<unknown>;
+    switch (message.type) {
+        case 'startTimer':
+            handled = beginTimer(message.todoId);
+            break;
+        case 'stopTimer':
+            handled = endTimer();
+            break;
+        case 'startFocus':
+            handled = beginFocus(message.todoId).then(scheduleFocusAlarm);
+            break;
+        case 'stopFocus':
+            handled = endFocus().then(() => chrome.alarms.clear(FOCUS_PHASE_ALARM));
+            break;
+        case 'skipFocusPhase':
+            handled = advanceFocus(false).then(scheduleFocusAlarm);
+            break;
+        default:
+            return;
+    }
+    handled.then(updateBadge).then(() => sendResponse());
+    return true;
+});
+
+// Notify when completing a todo unblocks its dependents, whichever view completed it
+chrome.storage.onChanged.addListener(async (changes, areaName) => {
+    if (areaName !== 'local' || !changes.todos) return;
+
+    const previous = (changes.todos.oldValue as Todo[] | undefined) ?? [];
+    const current = (changes.todos.newValue as Todo[] | undefined) ?? [];
+    for (const todo of getNewlyUnblocked(previous, current)) {
+        await chrome.notifications.create(`unblocked_${todo.id}`, {
+            type: 'basic',
+            iconUrl: 'icons/icon128.png',
+            title: 'Tâche débloquée',
+            message: `${todo.title} est maintenant débloquée`,
+            priority: 1
+        });
+    }
+});
+
+// Keep reminder alarms in line with the todos, whichever view (or sync, or import) changed them
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes.todos) {
+        queueReminderTask(reconcileReminderAlarms);
+    }
 });
 
+// Keep one alarm per snoozed todo, whichever view snoozed it
+chrome.storage.onChanged.addListener(async (changes, areaName) => {
+    if (areaName !== 'local' || !changes.todos) return;
+
+    const previous = (changes.todos.oldValue as Todo[] | undefined) ?? [];
+    const current = (changes.todos.newValue as Todo[] | undefined) ?? [];
+    for (const todo of getSnoozeChanges(previous, current)) {
+        await scheduleSnoozeAlarm(todo);
+    }
+});
+
+// Keep the category submenus in sync with the labels
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes.categories) {
+        buildContextMenus();
+    }
+});
+
+// The timer can also change outside this worker, e.g. when a backup is restored
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes.activeTimer) {
+        updateBadge();
+    }
+});
+
+// One entry per capture source, each with a submenu to pick a label when labels exist
+async function buildContextMenus() {
+    const categories = (await getCategories()).filter(c => !c.deletedAt);
+    await chrome.contextMenus.removeAll();
+
+    for (const menu of captureMenus) {
+        chrome.contextMenus.create({ id: menu.id, title: menu.title, contexts: [menu.context] });
+        if (categories.length === 0) continue;
+
+        chrome.contextMenus.create({ id: `${menu.id}|`, parentId: menu.id, title: 'Sans label', contexts: [menu.context] });
+        for (const category of categories) {
+            chrome.contextMenus.create({
+                id: `${menu.id}|${category.id}`,
+                parentId: menu.id,
+                title: category.name,
+                contexts: [menu.context]
+            });
+        }
+    }
+}
+
+// Create the todo in the Inbox; an open side panel picks it up through its storage listener
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+    const [menuId, categoryId] = String(info.menuItemId).split('|');
+
+    let title: string | undefined;
+    let link: string | undefined;
+    if (menuId === 'captureSelection') {
+        title = info.selectionText;
+        link = info.pageUrl;
+    } else if (menuId === 'captureLink') {
+        title = info.selectionText || info.linkUrl;
+        link = info.linkUrl;
+    } else if (menuId === 'capturePage') {
+        title = tab?.title || info.pageUrl;
+        link = info.pageUrl;
+    } else {
+        return;
+    }
+
+    title = title?.replace(/\s+/g, ' ').trim();
+    if (!title) return;
+    if (title.length > MAX_CAPTURED_TITLE_LENGTH) {
+        title = `${title.slice(0, MAX_CAPTURED_TITLE_LENGTH - 1)}…`;
+    }
+
+    const todo = await addTodo(title, {
+        link,
+        categoryIds: categoryId ? [categoryId] : undefined
+    });
+    await notifyTodoAdded(todo);
+});
+
+chrome.omnibox.setDefaultSuggestion({ description: describeOmniboxInput(parseOmniboxInput('')) });
+
+// "td ? facture" suggests todos, and GitHub issues and emails from the last fetch
+chrome.omnibox.onInputChanged.addListener(async (text, suggest) => {
+    const input = parseOmniboxInput(text);
+    chrome.omnibox.setDefaultSuggestion({ description: describeOmniboxInput(input) });
+    if (input.mode !== 'search') {
+        suggest([]);
+        return;
+    }
+
+    const [todos, issues, emails] = await Promise.all([getTodos(), getFetchedIssues(), getFetchedEmails()]);
+    suggest(searchOmnibox(input.query, todos, issues, emails).map(formatOmniboxSuggestion));
+});
+
+// A picked suggestion (or Enter on a search) opens the panel on the item; anything else is a quick-add
+chrome.omnibox.onInputEntered.addListener(async (text) => {
+    const target = decodeOmniboxTarget(text);
+    if (target) {
+        await openPanelOn(target);
+        return;
+    }
+
+    const input = parseOmniboxInput(text);
+    if (input.mode === 'search') {
+        const [todos, issues, emails] = await Promise.all([getTodos(), getFetchedIssues(), getFetchedEmails()]);
+        const [first] = searchOmnibox(input.query, todos, issues, emails, 1);
+        if (first) await openPanelOn(first.target);
+        return;
+    }
+    if (!input.text) return;
+
+    const parsed = parseQuickAdd(input.text, (await getCategories()).filter(c => !c.deletedAt));
+    const todo = await addTodo(parsed.title || input.text, {
+        categoryIds: parsed.categoryIds,
+        priority: parsed.priority,
+        startDate: parsed.startDate,
+        reminders: parsed.startDate ? parsed.reminders || [15] : undefined
+    });
+    if (todo.startDate && todo.reminders?.length) {
+        await rescheduleReminders(todo.id, todo.startDate, todo.reminders);
+    }
+    await notifyTodoAdded(todo);
+});
+
+async function notifyTodoAdded(todo: Todo) {
+    await chrome.notifications.create(`added_${todo.id}`, {
+        type: 'basic',
+        iconUrl: 'icons/icon128.png',
+        title: 'Tâche ajoutée',
+        message: todo.title,
+        priority: 0
+    });
+}
+
+// Open the side panel, then pass it a request through storage. The panel is opened before anything
+// is awaited: Chrome only allows it while handling the user's action.
+async function openPanel(request: () => Promise<void>) {
+    const opening = chrome.sidePanel.open({ windowId: chrome.windows.WINDOW_ID_CURRENT });
+    await request();
+    await opening.catch((error) => console.error('[Background] Could not open the side panel:', error));
+}
+
+async function openPanelOn(target: PanelFocus) {
+    await openPanel(() => savePanelFocus(target));
+}
+
+// Global shortcuts declared in the manifest (toggling the panel is the built-in _execute_action)
+chrome.commands.onCommand.addListener(async (command) => {
+    if (command === 'quick-add') {
+        await openPanel(() => savePanelAction('quickAdd'));
+    } else if (command === 'start-focus') {
+        await startFocusFromShortcut();
+    }
+});
+
+// Focus on the todo being timed, or else on the one of the last pomodoro
+async function startFocusFromShortcut() {
+    const [session, timer, pomodoros, todos] = await Promise.all([getFocusSession(), getActiveTimer(), getPomodoros(), getTodos()]);
+    const notify = (title: string, message: string) => chrome.notifications.create(`focus_${Date.now()}`, {
+        type: 'basic',
+        iconUrl: 'icons/icon128.png',
+        title,
+        message,
+        priority: 1
+    });
+
+    if (session) {
+        const todo = todos.find(t => t.id === session.todoId);
+        await notify('Mode focus déjà en cours', todo?.title ?? 'Tâche supprimée');
+        return;
+    }
+
+    const candidates = [timer?.todoId, pomodoros[pomodoros.length - 1]?.todoId];
+    const todo = candidates
+        .map(id => todos.find(t => t.id === id && !t.completed && !t.deletedAt))
+        .find(t => t !== undefined);
+    if (!todo) {
+        await notify('Aucune tâche à suivre', 'Lancez le mode focus depuis une tâche du panneau');
+        return;
+    }
+
+    await beginFocus(todo.id);
+    await scheduleFocusAlarm();
+    await updateBadge();
+
+    const settings = await getFocusSettings();
+    await notify('Mode focus démarré', `${todo.title} pour ${settings.workMinutes} min`);
+}
+
 // Alarm handler
 chrome.alarms.onAlarm.addListener(async (alarm) => {
     console.log('[Background] Alarm triggered:', alarm.name);
@@ -19,14 +296,129 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
     if (alarm.name === 'refreshData') {
         await checkGitHubUpdates();
         await checkGmailUpdates();
+    } else if (alarm.name === 'overdueCheck') {
+        await checkOverdueTodos();
+    } else if (alarm.name === 'purgeTrash') {
+        await purgeExpiredTrash();
+    } else if (alarm.name === 'archiveCompleted') {
+        const archived = await archiveCompletedTodos();
+        console.log('[Background] Archived completed todos:', archived);
+    } else if (alarm.name === BADGE_TICK_ALARM) {
+        await updateBadge();
+    } else if (alarm.name === FOCUS_PHASE_ALARM) {
+        await handleFocusPhaseEnd();
+    } else if (alarm.name.startsWith(SNOOZE_ALARM_PREFIX)) {
+        await handleSnoozeEnd(alarm.name);
     } else if (alarm.name.startsWith('reminder_')) {
-        await handleReminderAlarm(alarm.name);
+        await queueReminderTask(() => handleReminderAlarm(alarm));
     }
 });
 
+// Show the focus session's remaining minutes, or the running timer's elapsed time, on the action badge
+async function updateBadge() {
+    const [session, timer] = await Promise.all([getFocusSession(), getActiveTimer()]);
+
+    if (session) {
+        await chrome.action.setBadgeBackgroundColor({ color: session.phase === 'work' ? '#ef4444' : '#10b981' });
+        await chrome.action.setBadgeText({ text: `${getRemainingMinutes(session)}` });
+    } else if (timer) {
+        await chrome.action.setBadgeBackgroundColor({ color: '#3b82f6' });
+        await chrome.action.setBadgeText({ text: formatBadgeTime(Date.now() - timer.start) });
+    } else {
+        await chrome.action.setBadgeText({ text: '' });
+        await chrome.alarms.clear(BADGE_TICK_ALARM);
+        return;
+    }
+
+    if (!await chrome.alarms.get(BADGE_TICK_ALARM)) {
+        chrome.alarms.create(BADGE_TICK_ALARM, { periodInMinutes: 1 });
+    }
+}
+
+// Fire the focus alarm when the current phase ends
+async function scheduleFocusAlarm() {
+    const session = await getFocusSession();
+    if (session) {
+        chrome.alarms.create(FOCUS_PHASE_ALARM, { when: session.phaseEnd });
+    }
+}
+
+// Alarms may be lost when the browser restarts: recreate the focus one (it fires at once if the phase is over)
+async function restoreFocusAlarm() {
+    if (!await chrome.alarms.get(FOCUS_PHASE_ALARM)) {
+        await scheduleFocusAlarm();
+    }
+}
+
+// Switch phase and notify
+async function handleFocusPhaseEnd() {
+    const session = await advanceFocus(true);
+    if (!session) return;
+
+    await scheduleFocusAlarm();
+    await updateBadge();
+
+    const [todos, settings] = await Promise.all([getTodos(), getFocusSettings()]);
+    const todo = todos.find(t => t.id === session.todoId);
+
+    await chrome.notifications.create(`focus_${Date.now()}`, {
+        type: 'basic',
+        iconUrl: 'icons/icon128.png',
+        title: session.phase === 'break' ? 'Pomodoro terminé' : 'Pause terminée',
+        message: session.phase === 'break'
+            ? `${session.completedPomodoros} pomodoro${session.completedPomodoros > 1 ? 's' : ''} sur ${todo?.title ?? 'la tâche'}. Pause de ${settings.breakMinutes} min.`
+            : `Retour sur ${todo?.title ?? 'la tâche'} pour ${settings.workMinutes} min.`,
+        priority: 2
+    });
+}
+
+// Fire the snooze alarm when the todo should come back
+async function scheduleSnoozeAlarm(todo: Todo) {
+    await chrome.alarms.clear(getSnoozeAlarmName(todo.id));
+    if (todo.snoozedUntil !== undefined && !todo.completed && !todo.deletedAt) {
+        chrome.alarms.create(getSnoozeAlarmName(todo.id), { when: todo.snoozedUntil });
+    }
+}
+
+// Alarms may be lost when the browser restarts: recreate those of snoozed todos (past ones fire at once)
+async function restoreSnoozeAlarms() {
+    const todos = await getTodos();
+    for (const todo of todos.filter(t => t.snoozedUntil !== undefined)) {
+        if (!await chrome.alarms.get(getSnoozeAlarmName(todo.id))) {
+            await scheduleSnoozeAlarm(todo);
+        }
+    }
+}
+
+// Bring a snoozed todo back into the lists and notify
+async function handleSnoozeEnd(alarmName: string) {
+    const todoId = alarmName.slice(SNOOZE_ALARM_PREFIX.length);
+    const todo = (await getTodos()).find(t => t.id === todoId);
+    if (!todo?.snoozedUntil || todo.completed || todo.deletedAt) return;
+
+    await updateTodo(todo.id, { snoozedUntil: undefined });
+    await chrome.notifications.create(alarmName, {
+        type: 'basic',
+        iconUrl: 'icons/icon128.png',
+        title: 'Tâche de retour',
+        message: todo.title,
+        priority: 1
+    });
+}
+
+// Reminder checks and alarms run one at a time, so that a reminder is never notified twice
+let reminderQueue: Promise<void> = Promise.resolve();
+
+function queueReminderTask(task: () => Promise<void>): Promise<void> {
+    reminderQueue = reminderQueue
+        .then(task)
+        .catch((error) => console.error('[Background] Error handling reminders:', error));
+    return reminderQueue;
+}
+
 // Reminder checking logic
-async function handleReminderAlarm(alarmName: string) {
-    const parts = alarmName.split('_');
+async function handleReminderAlarm(alarm: chrome.alarms.Alarm) {
+    const parts = alarm.name.split('_');
     if (parts.length === 3) {
         const todoId = parts[1];
         const reminderMinutes = parseInt(parts[2]);
@@ -34,19 +426,102 @@ async function handleReminderAlarm(alarmName: string) {
         const todos = await getTodos();
         const todo = todos.find(t => t.id === todoId);
 
-        if (todo && !todo.completed) {
-            await chrome.notifications.create(alarmName, {
-                type: 'basic',
-                iconUrl: 'icons/icon128.png',
-                title: 'Rappel de tâche',
-                message: `${todo.title} commence dans ${formatReminderTime(reminderMinutes)}`,
-                priority: 2,
-                requireInteraction: false
-            });
+        if (todo && !todo.completed && !todo.deletedAt) {
+            if (todo.startDate) {
+                const reminder = { todoId, reminderMinutes, scheduledTime: todo.startDate - reminderMinutes * 60 * 1000 };
+                // Already notified, e.g. as missed on startup; a postponed alarm fires after the planned time and still shows
+                const postponed = alarm.scheduledTime > reminder.scheduledTime;
+                if (!postponed && (await getFiredReminders())?.includes(getReminderKey(reminder))) return;
+                await markReminderFired(reminder);
+            }
+            await notifyReminder(todo, reminderMinutes, false);
         }
     }
 }
 
+// Create missing reminder alarms, clear orphaned ones, and notify the reminders missed while the browser was closed
+async function reconcileReminderAlarms() {
+    const now = Date.now();
+    const [todos, fired] = await Promise.all([getTodos(), getFiredReminders()]);
+    const missed = await reconcileReminders(todos, fired, now);
+
+    // Only reminders todos still call for are remembered; on the first check, past ones count as notified
+    const expected = getExpectedReminders(todos);
+    const expectedKeys = new Set(expected.map(getReminderKey));
+    const notified = fired ?? expected.filter(r => r.scheduledTime <= now).map(getReminderKey);
+    await saveFiredReminders([...new Set([...notified, ...missed.map(getReminderKey)])].filter(key => expectedKeys.has(key)));
+
+    for (const reminder of missed) {
+        const todo = todos.find(t => t.id === reminder.todoId);
+        if (todo) {
+            await notifyReminder(todo, reminder.reminderMinutes, true);
+        }
+    }
+}
+
+async function markReminderFired(reminder: ReminderAlarm) {
+    const fired = (await getFiredReminders()) ?? [];
+    const key = getReminderKey(reminder);
+    if (!fired.includes(key)) {
+        await saveFiredReminders([...fired, key]);
+    }
+}
+
+// Reminder notification; `late` when it was missed while the browser was closed
+async function notifyReminder(todo: Todo, reminderMinutes: number, late: boolean) {
+    // A postponed or late reminder fires after the planned time: count from the actual start
+    const minutesLeft = todo.startDate ? Math.round((todo.startDate - Date.now()) / 60000) : reminderMinutes;
+    await chrome.notifications.create(getReminderAlarmName(todo.id, reminderMinutes), {
+        type: 'basic',
+        iconUrl: 'icons/icon128.png',
+        title: late ? 'Rappel manqué' : 'Rappel de tâche',
+        message: minutesLeft > 0
+            ? `${todo.title} commence dans ${formatReminderTime(minutesLeft)}`
+            : `${todo.title} a commencé`,
+        contextMessage: late ? 'En retard · cliquer pour ouvrir la tâche' : 'Cliquer pour ouvrir la tâche',
+        // Chrome shows at most two buttons: opening is done by clicking the notification
+        buttons: [{ title: 'Terminer' }, { title: `Reporter ${REMINDER_POSTPONE_MINUTES} min` }],
+        priority: 2,
+        requireInteraction: true
+    });
+}
+
+// Overdue todos, notified at most once a day
+async function checkOverdueTodos() {
+    try {
+        const today = new Date().toDateString();
+        const result = await chrome.storage.local.get('lastOverdueNotification');
+        if (result.lastOverdueNotification === today) return;
+
+        const todos = await getTodos();
+        const overdueTodos = todos.filter(t => !t.deletedAt && isOverdue(t));
+        if (overdueTodos.length === 0) return;
+
+        console.log('[Background] Overdue todos found:', overdueTodos.length);
+
+        const title = overdueTodos.length === 1
+            ? 'Tâche en retard'
+            : `${overdueTodos.length} tâches en retard`;
+
+        const message = overdueTodos.length === 1
+            ? overdueTodos[0].title
+            : `${overdueTodos[0].title} et ${overdueTodos.length - 1} autres...`;
+
+        await chrome.notifications.create(`overdue_${Date.now()}`, {
+            type: 'basic',
+            iconUrl: 'icons/icon128.png',
+            title: title,
+            message: message,
+            priority: 2
+        });
+
+        await chrome.storage.local.set({ lastOverdueNotification: today });
+
+    } catch (error) {
+        console.error('[Background] Error checking overdue todos:', error);
+    }
+}
+
 // GitHub polling logic
 async function checkGitHubUpdates() {
     try {
@@ -88,6 +563,7 @@ async function checkGitHubUpdates() {
 
         // Update storage
         await chrome.storage.local.set({ lastKnownIssues: currentIds });
+        await saveFetchedIssues(issues);
 
     } catch (error) {
         console.error('[Background] Error checking GitHub:', error);
@@ -149,6 +625,7 @@ async function checkGmailUpdates() {
 
         // Update storage
         await chrome.storage.local.set({ lastKnownEmails: currentIds });
+        await saveFetchedEmails(emails);
 
     } catch (error) {
         console.error('[Background] Error checking Gmail:', error);
@@ -167,8 +644,36 @@ function formatReminderTime(minutes: number): string {
     }
 }
 
+// Reminder buttons: complete the todo, or remind again a bit later
+chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIndex) => {
+    if (!notificationId.startsWith('reminder_')) return;
+    chrome.notifications.clear(notificationId);
+
+    if (buttonIndex === 0) {
+        const todoId = notificationId.split('_')[1];
+        const todo = (await getTodos()).find(t => t.id === todoId);
+        if (todo && !todo.completed) {
+            await toggleTodo(todoId);
+            await cancelReminders(todoId);
+            if ((await getActiveTimer())?.todoId === todoId) {
+                await endTimer();
+                await updateBadge();
+            }
+        }
+    } else {
+        await postponeReminder(notificationId, REMINDER_POSTPONE_MINUTES);
+    }
+});
+
 // Handle notification clicks
 chrome.notifications.onClicked.addListener(async (notificationId) => {
+    // Reminders open the panel scrolled to their todo
+    if (notificationId.startsWith('reminder_')) {
+        chrome.notifications.clear(notificationId);
+        await openPanelOn({ type: 'todo', id: notificationId.split('_')[1] });
+        return;
+    }
+
     // Open sidepanel
     const windows = await chrome.windows.getAll();
     if (windows.length > 0 && typeof windows[0]?.id === 'number') {
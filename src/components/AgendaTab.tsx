@@ -0,0 +1,370 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Todo, Category } from '../services/storageService';
+import { getTodos, getCategories, getGitHubSettings, rescheduleTodo, getTodoCategories } from '../services/storageService';
+import type { GitHubIssue } from '../services/githubService';
+import { fetchColumnCards } from '../services/githubService';
+import type { AgendaMode, AgendaRangeSlot } from '../services/agendaService';
+import {
+    agendaModes, getWeekDays, getMonthWeeks, shiftAnchor, getTodosOnDay, isAllDayTodo, getIssueRanges, layoutRanges, getDropDate
+} from '../services/agendaService';
+import { startOfDay } from '../services/smartListService';
+import { record } from '../services/historyService';
+
+interface AgendaTabProps {
+    cachedIssues: GitHubIssue[];
+    onUpdateCache: (issues: GitHubIssue[]) => void;
+}
+
+const HOUR_HEIGHT = 32;
+const FIRST_VISIBLE_HOUR = 7;
+const LANE_HEIGHT = 18;
+const MAX_MONTH_ITEMS = 3;
+const ISSUE_COLOR = '#6366f1';
+const DEFAULT_TODO_COLOR = '#3b82f6';
+
+const hours = Array.from({ length: 24 }, (_, i) => i);
+const weekdayLabels = ['lun', 'mar', 'mer', 'jeu', 'ven', 'sam', 'dim'];
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function AgendaTab({ cachedIssues, onUpdateCache }: AgendaTabProps) {
+    const [todos, setTodos] = useState<Todo[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [mode, setMode] = useState<AgendaMode>('week');
+    const [anchor, setAnchor] = useState(() => Date.now());
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const gridRef = useRef<HTMLDivElement>(null);
+    const issuesRequested = useRef(false);
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    // Project dates come from the GitHub tab cache, fetched here if that tab was never opened
+    useEffect(() => {
+        if (issuesRequested.current || cachedIssues.length > 0) return;
+        issuesRequested.current = true;
+
+        const loadIssues = async () => {
+            const settings = await getGitHubSettings();
+            if (!settings.token || !settings.columnId) return;
+            try {
+                onUpdateCache(await fetchColumnCards(settings));
+            } catch (err) {
+                console.error('Error loading GitHub issues:', err);
+            }
+        };
+        loadIssues();
+    }, [cachedIssues.length, onUpdateCache]);
+
+    // Start the week grid at the beginning of the working day
+    useEffect(() => {
+        if (!loading && mode === 'week' && gridRef.current) {
+            gridRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+        }
+    }, [loading, mode]);
+
+    const loadData = async () => {
+        try {
+            const [loadedTodos, loadedCategories] = await Promise.all([getTodos(), getCategories()]);
+            setTodos(loadedTodos);
+            setCategories(loadedCategories);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDrop = async (e: React.DragEvent, day: number, hour?: number) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const todo = todos.find(t => t.id === (draggedId ?? e.dataTransfer.getData('text/plain')));
+        setDraggedId(null);
+        if (!todo) return;
+
+        const startDate = getDropDate(todo, day, hour);
+        if (startDate === todo.startDate) return;
+
+        const updated = await record('Tâche replanifiée', () => rescheduleTodo(todo.id, startDate));
+        if (updated) {
+            setTodos(todos.map(t => t.id === updated.id ? updated : t));
+        }
+    };
+
+    const dropProps = (key: string, day: number, hour?: number) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!draggedId) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (dropTarget !== key) setDropTarget(key);
+        },
+        onDragLeave: () => {
+            if (dropTarget === key) setDropTarget(null);
+        },
+        onDrop: (e: React.DragEvent) => handleDrop(e, day, hour)
+    });
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-6 w-6 border-2 border-blue-500 border-t-transparent"></div>
+            </div>
+        );
+    }
+
+    const visibleTodos = todos.filter(t => !t.deletedAt && t.startDate !== undefined);
+    const ranges = getIssueRanges(cachedIssues);
+    const today = startOfDay(Date.now());
+
+    const renderTodo = (todo: Todo) => {
+        // Todos take the colour of their first tag
+        const color = getTodoCategories(todo, categories)[0]?.color ?? DEFAULT_TODO_COLOR;
+        return (
+            <div
+                key={todo.id}
+                draggable
+                onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', todo.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(todo.id);
+                }}
+                onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropTarget(null);
+                }}
+                className={`px-1 py-0.5 text-[10px] leading-tight rounded cursor-grab active:cursor-grabbing truncate border-l-2
+                           ${todo.completed ? 'opacity-50 line-through' : ''} ${draggedId === todo.id ? 'opacity-30' : ''}`}
+                style={{ backgroundColor: `${color}20`, borderLeftColor: color, color }}
+                title={`${todo.title}${isAllDayTodo(todo) ? '' : ` · ${formatTime(todo.startDate ?? 0)}`}`}
+            >
+                {todo.title}
+            </div>
+        );
+    };
+
+    const renderRangeSlot = (slot: AgendaRangeSlot, columns: number, top = 0) => (
+        <a
+            key={`${slot.range.issue.id}-${slot.firstColumn}`}
+            href={slot.range.issue.url || undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="absolute px-1 text-[10px] leading-4 rounded text-white truncate hover:opacity-90"
+            style={{
+                left: `calc(${(slot.firstColumn / columns) * 100}% + 1px)`,
+                width: `calc(${((slot.lastColumn - slot.firstColumn + 1) / columns) * 100}% - 2px)`,
+                top: top + slot.lane * LANE_HEIGHT,
+                height: LANE_HEIGHT - 2,
+                backgroundColor: ISSUE_COLOR
+            }}
+            title={`${slot.range.issue.number ? `#${slot.range.issue.number} ` : ''}${slot.range.issue.title}`}
+        >
+            {slot.range.issue.number ? `#${slot.range.issue.number} ` : ''}{slot.range.issue.title}
+        </a>
+    );
+
+    const renderWeek = () => {
+        const days = getWeekDays(anchor);
+        const slots = layoutRanges(ranges, days);
+        const lanes = slots.reduce((max, s) => Math.max(max, s.lane + 1), 0);
+        const now = new Date();
+        const nowOffset = (now.getHours() + now.getMinutes() / 60) * HOUR_HEIGHT;
+
+        return (
+            <div className="flex flex-col flex-1 overflow-hidden">
+                {/* Day headers */}
+                <div className="flex border-b border-gray-200 dark:border-gray-700 pl-8">
+                    {days.map((day, i) => (
+                        <div
+                            key={day}
+                            className={`flex-1 py-1 text-center text-[10px] ${day === today
+                                ? 'text-blue-600 dark:text-blue-400 font-semibold'
+                                : 'text-gray-500 dark:text-gray-400'}`}
+                        >
+                            {weekdayLabels[i]} {new Date(day).getDate()}
+                        </div>
+                    ))}
+                </div>
+
+                {/* All-day row: project ranges and untimed todos */}
+                <div className="flex border-b border-gray-200 dark:border-gray-700">
+                    <div className="w-8 flex-shrink-0 text-[9px] text-gray-400 dark:text-gray-500 text-right pr-1 pt-1">jour</div>
+                    <div className="relative flex-1">
+                        <div className="flex min-h-[24px]" style={{ paddingTop: lanes * LANE_HEIGHT }}>
+                            {days.map(day => (
+                                <div
+                                    key={day}
+                                    {...dropProps(`day-${day}`, day)}
+                                    className={`flex-1 min-w-0 p-0.5 space-y-0.5 border-l border-gray-100 dark:border-gray-800
+                                               ${dropTarget === `day-${day}` ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                                >
+                                    {getTodosOnDay(visibleTodos, day).filter(isAllDayTodo).map(todo => renderTodo(todo))}
+                                </div>
+                            ))}
+                        </div>
+                        {slots.map(slot => renderRangeSlot(slot, days.length, 2))}
+                    </div>
+                </div>
+
+                {/* Time grid */}
+                <div ref={gridRef} className="flex flex-1 overflow-y-auto">
+                    <div className="w-8 flex-shrink-0">
+                        {hours.map(hour => (
+                            <div key={hour} className="text-[9px] text-gray-400 dark:text-gray-500 text-right pr-1" style={{ height: HOUR_HEIGHT }}>
+                                {hour > 0 && `${hour}h`}
+                            </div>
+                        ))}
+                    </div>
+                    {days.map(day => {
+                        const timedTodos = getTodosOnDay(visibleTodos, day).filter(t => !isAllDayTodo(t));
+                        return (
+                            <div key={day} className="relative flex-1 min-w-0 border-l border-gray-100 dark:border-gray-800">
+                                {hours.map(hour => (
+                                    <div
+                                        key={hour}
+                                        {...dropProps(`${day}-${hour}`, day, hour)}
+                                        className={`border-t border-gray-100 dark:border-gray-800
+                                                   ${dropTarget === `${day}-${hour}` ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                                        style={{ height: HOUR_HEIGHT }}
+                                    />
+                                ))}
+                                {timedTodos.map(todo => {
+                                    const start = new Date(todo.startDate ?? 0);
+                                    const sameHour = timedTodos.filter(t => new Date(t.startDate ?? 0).getHours() === start.getHours());
+                                    const index = sameHour.indexOf(todo);
+                                    return (
+                                        <div
+                                            key={todo.id}
+                                            className="absolute"
+                                            style={{
+                                                top: (start.getHours() + start.getMinutes() / 60) * HOUR_HEIGHT + 1,
+                                                left: `${(index / sameHour.length) * 100}%`,
+                                                width: `${100 / sameHour.length}%`,
+                                                pointerEvents: draggedId && draggedId !== todo.id ? 'none' : undefined
+                                            }}
+                                        >
+                                            {renderTodo(todo)}
+                                        </div>
+                                    );
+                                })}
+                                {day === today && (
+                                    <div className="absolute left-0 right-0 h-px bg-red-500 pointer-events-none" style={{ top: nowOffset }} />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    const renderMonth = () => {
+        const weeks = getMonthWeeks(anchor);
+        const month = new Date(anchor).getMonth();
+
+        return (
+            <div className="flex flex-col flex-1 overflow-y-auto">
+                <div className="flex border-b border-gray-200 dark:border-gray-700">
+                    {weekdayLabels.map(label => (
+                        <div key={label} className="flex-1 py-1 text-center text-[10px] text-gray-500 dark:text-gray-400">{label}</div>
+                    ))}
+                </div>
+                {weeks.map(days => {
+                    const slots = layoutRanges(ranges, days);
+                    const lanes = slots.reduce((max, s) => Math.max(max, s.lane + 1), 0);
+                    return (
+                        <div key={days[0]} className="relative flex border-b border-gray-100 dark:border-gray-800">
+                            {days.map(day => {
+                                const dayTodos = getTodosOnDay(visibleTodos, day);
+                                return (
+                                    <div
+                                        key={day}
+                                        {...dropProps(`month-${day}`, day)}
+                                        className={`flex-1 min-w-0 min-h-[72px] p-0.5 border-l border-gray-100 dark:border-gray-800
+                                                   ${new Date(day).getMonth() !== month ? 'bg-gray-50 dark:bg-gray-800/40' : ''}
+                                                   ${dropTarget === `month-${day}` ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                                    >
+                                        <div className={`text-[10px] text-right px-0.5 ${day === today
+                                            ? 'text-blue-600 dark:text-blue-400 font-semibold'
+                                            : 'text-gray-500 dark:text-gray-400'}`}
+                                        >
+                                            {new Date(day).getDate()}
+                                        </div>
+                                        <div className="space-y-0.5" style={{ marginTop: lanes * LANE_HEIGHT }}>
+                                            {dayTodos.slice(0, MAX_MONTH_ITEMS).map(todo => renderTodo(todo))}
+                                            {dayTodos.length > MAX_MONTH_ITEMS && (
+                                                <button
+                                                    onClick={() => {
+                                                        setAnchor(day);
+                                                        setMode('week');
+                                                    }}
+                                                    className="w-full text-left px-1 text-[10px] text-gray-400 dark:text-gray-500 hover:text-gray-600"
+                                                >
+                                                    +{dayTodos.length - MAX_MONTH_ITEMS}
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            {slots.map(slot => renderRangeSlot(slot, days.length, 16))}
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    const weekDays = getWeekDays(anchor);
+    const title = mode === 'week'
+        ? `${new Date(weekDays[0]).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' })} – ${new Date(weekDays[6]).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric' })}`
+        : new Date(anchor).toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
+
+    const navButtonClass = `p-1 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800
+                            hover:text-gray-700 dark:hover:text-gray-200 transition-colors`;
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Toolbar */}
+            <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                <div className="flex items-center gap-1 min-w-0">
+                    <button onClick={() => setAnchor(shiftAnchor(anchor, mode, -1))} className={navButtonClass} title="Précédent">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                        </svg>
+                    </button>
+                    <button onClick={() => setAnchor(shiftAnchor(anchor, mode, 1))} className={navButtonClass} title="Suivant">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
+                    </button>
+                    <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 truncate first-letter:uppercase">{title}</h2>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                        onClick={() => setAnchor(Date.now())}
+                        className="px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                   text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                    >
+                        Aujourd'hui
+                    </button>
+                    {agendaModes.map(m => (
+                        <button
+                            key={m.id}
+                            onClick={() => setMode(m.id)}
+                            className={`px-2 py-1 text-xs rounded-full transition-colors ${mode === m.id
+                                ? 'bg-blue-500 text-white'
+                                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {mode === 'week' ? renderWeek() : renderMonth()}
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import type { Todo, Category } from '../services/storageService';
+import { getArchivedTodos, reopenArchivedTodo, getArchiveAfterDays, saveArchiveAfterDays } from '../services/storageService';
+
+interface ArchiveViewProps {
+    categories: Category[];
+    onReopen: (todo: Todo) => void;
+}
+
+const archiveAfterOptions = [1, 7, 14, 30];
+
+// Lowercase and strip accents for search
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export default function ArchiveView({ categories, onReopen }: ArchiveViewProps) {
+    const [archivedTodos, setArchivedTodos] = useState<Todo[]>([]);
+    const [archiveAfterDays, setArchiveAfterDays] = useState(7);
+    const [loading, setLoading] = useState(true);
+    const [search, setSearch] = useState('');
+
+    useEffect(() => {
+        loadArchive();
+    }, []);
+
+    const loadArchive = async () => {
+        try {
+            const [loadedTodos, loadedDays] = await Promise.all([
+                getArchivedTodos(),
+                getArchiveAfterDays()
+            ]);
+            setArchivedTodos(loadedTodos);
+            setArchiveAfterDays(loadedDays);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleReopen = async (id: string) => {
+        const todo = await reopenArchivedTodo(id);
+        if (!todo) return;
+
+        setArchivedTodos(archivedTodos.filter(t => t.id !== id));
+        onReopen(todo);
+    };
+
+    const handleArchiveAfterChange = async (days: number) => {
+        await saveArchiveAfterDays(days);
+        setArchiveAfterDays(days);
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-6 w-6 border-2 border-blue-500 border-t-transparent"></div>
+            </div>
+        );
+    }
+
+    const query = normalize(search.trim());
+    const filteredTodos = archivedTodos
+        .filter(t => !query || normalize(`${t.title} ${t.comment || ''}`).includes(query))
+        .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0));
+
+    // Group by completion day, most recent first
+    const groups: { label: string; todos: Todo[] }[] = [];
+    for (const todo of filteredTodos) {
+        const label = new Date(todo.completedAt ?? todo.createdAt).toLocaleDateString('fr-FR', {
+            weekday: 'long', day: 'numeric', month: 'long', year: 'numeric'
+        });
+        const group = groups.find(g => g.label === label);
+        if (group) {
+            group.todos.push(todo);
+        } else {
+            groups.push({ label, todos: [todo] });
+        }
+    }
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="px-3 py-2 space-y-2 border-b border-gray-200 dark:border-gray-700">
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Rechercher dans l'archive..."
+                    className="w-full px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600
+                               bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                               focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    Archiver les tâches terminées depuis plus de
+                    <select
+                        value={archiveAfterDays}
+                        onChange={(e) => handleArchiveAfterChange(parseInt(e.target.value))}
+                        className="px-1.5 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                   bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300
+                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {archiveAfterOptions.map(days => (
+                            <option key={days} value={days}>{days} jour{days > 1 ? 's' : ''}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                {groups.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center h-32 text-gray-400 dark:text-gray-500">
+                        <svg className="w-12 h-12 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                        </svg>
+                        <p className="text-sm">{query ? 'Aucun résultat' : 'Archive vide'}</p>
+                    </div>
+                ) : (
+                    groups.map(group => (
+                        <div key={group.label}>
+                            <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50 first-letter:uppercase">
+                                {group.label} ({group.todos.length})
+                            </div>
+                            <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                                {group.todos.map(todo => {
+                                    const tags = categories.filter(c => todo.categoryIds?.includes(c.id));
+                                    return (
+                                        <div key={todo.id} className="flex items-center justify-between gap-2 px-3 py-2.5">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                <span className="text-sm truncate line-through text-gray-400 dark:text-gray-500">
+                                                    {todo.title}
+                                                </span>
+                                                {tags.map(tag => (
+                                                    <span
+                                                        key={tag.id}
+                                                        className="px-1.5 py-0.5 text-[10px] font-medium rounded-full flex-shrink-0"
+                                                        style={{ backgroundColor: `${tag.color}20`, color: tag.color }}
+                                                    >
+                                                        {tag.name}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                            <button
+                                                onClick={() => handleReopen(todo.id)}
+                                                className="px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                                           text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 flex-shrink-0"
+                                            >
+                                                Rouvrir
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import type { BackupFile, BackupDiff, CollectionDiff, ImportMode } from '../services/backupService';
+import { createBackup, downloadBackup, parseBackup, computeBackupDiff, applyBackup } from '../services/backupService';
+
+interface BackupModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const collectionLabels: { key: keyof BackupDiff; label: string }[] = [
+    { key: 'todos', label: 'Tâches' },
+    { key: 'todoLists', label: 'Listes' },
+    { key: 'categories', label: 'Labels' },
+    { key: 'archivedTodos', label: 'Archive' }
+];
+
+function DiffRow({ label, diff }: { label: string; diff: CollectionDiff }) {
+    return (
+        <tr className="border-t border-gray-100 dark:border-gray-700">
+            <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">{label}</td>
+            <td className="py-1 text-center text-green-600 dark:text-green-400">{diff.added}</td>
+            <td className="py-1 text-center text-blue-600 dark:text-blue-400">{diff.changed}</td>
+            <td className="py-1 text-center text-orange-600 dark:text-orange-400">{diff.conflicting}</td>
+            <td className="py-1 text-center text-red-600 dark:text-red-400">{diff.removed}</td>
+        </tr>
+    );
+}
+
+export default function BackupModal({ isOpen, onClose }: BackupModalProps) {
+    const [includeToken, setIncludeToken] = useState(false);
+    const [backup, setBackup] = useState<BackupFile | null>(null);
+    const [diff, setDiff] = useState<BackupDiff | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [importing, setImporting] = useState(false);
+
+    useEffect(() => {
+        const handleEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+
+        if (isOpen) {
+            document.addEventListener('keydown', handleEscape);
+            document.body.style.overflow = 'hidden';
+        }
+
+        return () => {
+            document.removeEventListener('keydown', handleEscape);
+            document.body.style.overflow = '';
+        };
+    }, [isOpen, onClose]);
+
+    const handleBackdropClick = (e: React.MouseEvent) => {
+        if (e.target === e.currentTarget) onClose();
+    };
+
+    const handleExport = async () => {
+        downloadBackup(await createBackup(includeToken));
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        setBackup(null);
+        setDiff(null);
+        try {
+            const parsed = parseBackup(await file.text());
+            setDiff(await computeBackupDiff(parsed));
+            setBackup(parsed);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Import impossible');
+        }
+    };
+
+    const handleImport = async (mode: ImportMode) => {
+        if (!backup) return;
+        if (mode === 'replace' && !confirm('Remplacer toutes les données actuelles par cette sauvegarde ?')) return;
+
+        setImporting(true);
+        try {
+            await applyBackup(backup, mode);
+            window.location.reload();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Import impossible');
+            setImporting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+            onClick={handleBackdropClick}
+        >
+            <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+                        Sauvegarde
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-4 max-h-[60vh] overflow-y-auto space-y-6">
+                    {/* Export Section */}
+                    <div className="space-y-2">
+                        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Exporter</h3>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">
+                            Tâches, listes, labels, archive, thème et réglages GitHub dans un fichier JSON.
+                        </p>
+                        <label className="flex items-start gap-2 text-xs text-gray-700 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={includeToken}
+                                onChange={(e) => setIncludeToken(e.target.checked)}
+                                className="mt-0.5 rounded border-gray-300 dark:border-gray-600"
+                            />
+                            <span>
+                                Inclure le token GitHub
+                                <span className="block text-[10px] text-orange-600 dark:text-orange-400">
+                                    Sensible : toute personne ayant le fichier pourra accéder à votre compte.
+                                </span>
+                            </span>
+                        </label>
+                        <button
+                            onClick={handleExport}
+                            className="w-full px-3 py-2 text-sm font-medium rounded-lg bg-blue-500 hover:bg-blue-600 text-white"
+                        >
+                            Télécharger la sauvegarde
+                        </button>
+                    </div>
+
+                    {/* Import Section */}
+                    <div className="space-y-2">
+                        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Importer</h3>
+                        <input
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={handleFileChange}
+                            className="block w-full text-xs text-gray-600 dark:text-gray-400
+                                       file:mr-2 file:px-2 file:py-1 file:rounded-lg file:border-0
+                                       file:text-xs file:bg-gray-100 dark:file:bg-gray-700 file:text-gray-700 dark:file:text-gray-300"
+                        />
+
+                        {error && (
+                            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+                        )}
+
+                        {backup && diff && (
+                            <div className="space-y-2">
+                                <p className="text-xs text-gray-600 dark:text-gray-400">
+                                    Sauvegarde du {new Date(backup.exportedAt).toLocaleString('fr-FR')}
+                                    {backup.includesGitHubToken ? ' (token GitHub inclus)' : ''}
+                                </p>
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-gray-400 dark:text-gray-500">
+                                            <th className="pb-1 text-left font-medium"></th>
+                                            <th className="pb-1 font-medium">Ajouts</th>
+                                            <th className="pb-1 font-medium">Modifs</th>
+                                            <th className="pb-1 font-medium">Conflits</th>
+                                            <th className="pb-1 font-medium">Absents</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {collectionLabels.map(({ key, label }) => (
+                                            <DiffRow key={key} label={label} diff={diff[key]} />
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-[10px] text-gray-400 dark:text-gray-500">
+                                    Fusionner garde vos éléments absents de la sauvegarde ; remplacer les supprime
+                                    et restaure aussi le thème et les réglages.
+                                </p>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleImport('merge')}
+                                        disabled={importing}
+                                        className="flex-1 px-3 py-2 text-sm font-medium rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                                    >
+                                        Fusionner
+                                    </button>
+                                    <button
+                                        onClick={() => handleImport('replace')}
+                                        disabled={importing}
+                                        className="flex-1 px-3 py-2 text-sm font-medium rounded-lg border border-red-300 dark:border-red-700
+                                                   text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                                    >
+                                        Remplacer
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import type { Todo, Category, BoardColumn } from '../services/storageService';
+import { getTodoStatus, getTodoCategories } from '../services/storageService';
+import { priorities, isOverdue } from '../services/smartListService';
+import { getBlockers } from '../services/dependencyService';
+
+interface BoardViewProps {
+    todos: Todo[];
+    allTodos: Todo[]; // used to resolve blockers outside the displayed todos
+    columns: BoardColumn[];
+    categories: Category[];
+    draggedId?: string;
+    onEdit: (todo: Todo) => void;
+    onDragStart: (e: React.DragEvent, todo: Todo) => void;
+    onDragOver: (e: React.DragEvent, todo: Todo) => void;
+    onColumnDragOver: (e: React.DragEvent, columnId: string) => void;
+    onDrop: (e: React.DragEvent) => void;
+    onDragEnd: () => void;
+    onColumnsChange: (columns: BoardColumn[]) => void;
+}
+
+const MIN_COLUMNS = 2;
+
+export default function BoardView({
+    todos,
+    allTodos,
+    columns,
+    categories,
+    draggedId,
+    onEdit,
+    onDragStart,
+    onDragOver,
+    onColumnDragOver,
+    onDrop,
+    onDragEnd,
+    onColumnsChange
+}: BoardViewProps) {
+    const [editingColumns, setEditingColumns] = useState(false);
+
+    const updateColumn = (id: string, updates: Partial<Omit<BoardColumn, 'id'>>) => {
+        onColumnsChange(columns.map(c => c.id === id ? { ...c, ...updates } : c));
+    };
+
+    const moveColumn = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= columns.length) return;
+        const next = [...columns];
+        [next[index], next[target]] = [next[target], next[index]];
+        onColumnsChange(next);
+    };
+
+    const deleteColumn = (column: BoardColumn) => {
+        const count = todos.filter(t => getTodoStatus(t, columns) === column.id).length;
+        if (count > 0 && !confirm(`Supprimer la colonne "${column.name}" ? Ses ${count} tâche(s) reviendront dans la première colonne.`)) return;
+        onColumnsChange(columns.filter(c => c.id !== column.id));
+    };
+
+    // New columns go before the terminal one
+    const addColumn = () => {
+        const column: BoardColumn = { id: crypto.randomUUID(), name: 'Nouvelle colonne', color: '#6b7280' };
+        onColumnsChange([...columns.slice(0, -1), column, ...columns.slice(-1)]);
+    };
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center justify-between px-3 py-1.5 text-[10px] text-gray-400 dark:text-gray-500">
+                <span>La dernière colonne marque les tâches comme terminées</span>
+                <button
+                    onClick={() => setEditingColumns(!editingColumns)}
+                    className="px-2 py-0.5 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                    {editingColumns ? 'Terminé' : 'Colonnes'}
+                </button>
+            </div>
+
+            {editingColumns && (
+                <div className="px-3 pb-2 space-y-1.5 border-b border-gray-200 dark:border-gray-700">
+                    {columns.map((column, index) => (
+                        <div key={column.id} className="flex items-center gap-1.5">
+                            <input
+                                type="color"
+                                value={column.color}
+                                onChange={(e) => updateColumn(column.id, { color: e.target.value })}
+                                className="w-6 h-6 rounded cursor-pointer flex-shrink-0"
+                            />
+                            <input
+                                type="text"
+                                value={column.name}
+                                onChange={(e) => updateColumn(column.id, { name: e.target.value })}
+                                className="flex-1 min-w-0 px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                           bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                                onClick={() => moveColumn(index, -1)}
+                                disabled={index === 0}
+                                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                                title="Déplacer à gauche"
+                            >
+                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                                </svg>
+                            </button>
+                            <button
+                                onClick={() => moveColumn(index, 1)}
+                                disabled={index === columns.length - 1}
+                                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                                title="Déplacer à droite"
+                            >
+                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                                </svg>
+                            </button>
+                            <button
+                                onClick={() => deleteColumn(column)}
+                                disabled={columns.length <= MIN_COLUMNS}
+                                className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30 transition-colors"
+                                title="Supprimer"
+                            >
+                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={addColumn}
+                        className="w-full px-2 py-1 text-xs rounded-lg border border-dashed border-gray-300 dark:border-gray-600
+                                   text-gray-500 dark:text-gray-400 hover:border-blue-400 hover:text-blue-500"
+                    >
+                        + Ajouter une colonne
+                    </button>
+                </div>
+            )}
+
+            <div className="flex flex-1 gap-2 px-3 pb-3 overflow-x-auto">
+                {columns.map(column => {
+                    const columnTodos = todos.filter(t => getTodoStatus(t, columns) === column.id);
+                    return (
+                        <div
+                            key={column.id}
+                            onDragOver={(e) => onColumnDragOver(e, column.id)}
+                            onDrop={onDrop}
+                            className="flex flex-col w-40 flex-shrink-0 rounded-lg bg-gray-50 dark:bg-gray-800/50"
+                        >
+                            <div className="flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-400">
+                                <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: column.color }} />
+                                <span className="truncate">{column.name}</span>
+                                <span className="text-gray-400 dark:text-gray-500">({columnTodos.length})</span>
+                            </div>
+                            <div className="flex-1 px-1.5 pb-1.5 space-y-1.5 overflow-y-auto min-h-[48px]">
+                                {columnTodos.map(todo => {
+                                    const tags = getTodoCategories(todo, categories);
+                                    const priority = todo.priority && todo.priority < 4 ? priorities[todo.priority - 1] : undefined;
+                                    const blockers = todo.completed ? [] : getBlockers(todo, allTodos);
+                                    return (
+                                        <div
+                                            key={todo.id}
+                                            draggable
+                                            onDragStart={(e) => onDragStart(e, todo)}
+                                            onDragOver={(e) => onDragOver(e, todo)}
+                                            onDrop={onDrop}
+                                            onDragEnd={onDragEnd}
+                                            onClick={() => onEdit(todo)}
+                                            className={`p-2 rounded-lg bg-white dark:bg-gray-900 shadow-sm cursor-grab active:cursor-grabbing
+                                                       border ${isOverdue(todo) ? 'border-red-400' : 'border-gray-200 dark:border-gray-700'}
+                                                       ${draggedId === todo.id ? 'opacity-50 scale-95' : blockers.length > 0 ? 'opacity-60' : ''} transition-all`}
+                                        >
+                                            <p className={`text-xs break-words ${todo.completed
+                                                ? 'line-through text-gray-400 dark:text-gray-500'
+                                                : 'text-gray-800 dark:text-gray-200'}`}
+                                            >
+                                                {todo.title}
+                                            </p>
+                                            {blockers.length > 0 && (
+                                                <p className="mt-1 text-[10px] text-gray-500 dark:text-gray-400 truncate">
+                                                    Bloquée par {blockers.map(b => b.title).join(', ')}
+                                                </p>
+                                            )}
+                                            {(tags.length > 0 || priority) && (
+                                                <div className="flex flex-wrap gap-1 mt-1">
+                                                    {priority && (
+                                                        <span
+                                                            className="px-1.5 py-0.5 text-[10px] font-medium rounded-full"
+                                                            style={{ backgroundColor: `${priority.color}20`, color: priority.color }}
+                                                        >
+                                                            {priority.label}
+                                                        </span>
+                                                    )}
+                                                    {tags.map(tag => (
+                                                        <span
+                                                            key={tag.id}
+                                                            className="px-1.5 py-0.5 text-[10px] font-medium rounded-full"
+                                                            style={{ backgroundColor: `${tag.color}20`, color: tag.color }}
+                                                        >
+                                                            {tag.name}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
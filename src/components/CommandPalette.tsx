@@ -0,0 +1,126 @@
+import { useState, useEffect, useRef } from 'react';
+import type { PanelFocus, Todo } from '../services/storageService';
+import { getTodos, getFetchedIssues, getFetchedEmails } from '../services/storageService';
+import type { GitHubIssue } from '../services/githubService';
+import type { GmailEmail } from '../services/gmailService';
+import { searchOmnibox, matchesQuery } from '../services/omniboxService';
+
+export interface PaletteCommand {
+    id: string;
+    label: string;
+    hint: string;
+    keywords?: string;
+    run: () => void;
+}
+
+interface CommandPaletteProps {
+    commands: PaletteCommand[];
+    onQuickAdd: (text: string) => void;
+    onOpenItem: (focus: PanelFocus) => void;
+    onClose: () => void;
+}
+
+interface PaletteEntry {
+    key: string;
+    label: string;
+    hint: string;
+    run: () => void;
+}
+
+export default function CommandPalette({ commands, onQuickAdd, onOpenItem, onClose }: CommandPaletteProps) {
+    const [query, setQuery] = useState('');
+    const [selected, setSelected] = useState(0);
+    const [todos, setTodos] = useState<Todo[]>([]);
+    const [issues, setIssues] = useState<GitHubIssue[]>([]);
+    const [emails, setEmails] = useState<GmailEmail[]>([]);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Items are searched in the latest todos and in the issues and emails from the last fetch
+    useEffect(() => {
+        Promise.all([getTodos(), getFetchedIssues(), getFetchedEmails()]).then(([loadedTodos, loadedIssues, loadedEmails]) => {
+            setTodos(loadedTodos);
+            setIssues(loadedIssues);
+            setEmails(loadedEmails);
+        });
+    }, []);
+
+    const text = query.trim();
+    // Commands first, then items; adding the text as a todo comes last so Enter never adds by accident
+    const entries: PaletteEntry[] = [
+        ...commands
+            .filter(command => matchesQuery(text, command.label, command.hint, command.keywords))
+            .map(command => ({ key: command.id, label: command.label, hint: command.hint, run: command.run })),
+        ...(text ? searchOmnibox(text, todos, issues, emails) : []).map(match => ({
+            key: `${match.target.type}:${match.target.id}`,
+            label: match.label,
+            hint: match.source,
+            run: () => onOpenItem(match.target)
+        })),
+        ...(text ? [{ key: 'add', label: `Ajouter « ${text} »`, hint: 'Nouvelle tâche', run: () => onQuickAdd(text) }] : [])
+    ];
+    const active = Math.min(selected, entries.length - 1);
+
+    useEffect(() => {
+        listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+    }, [active]);
+
+    const runEntry = (entry: PaletteEntry) => {
+        onClose();
+        entry.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (entries.length === 0) return;
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setSelected((active + step + entries.length) % entries.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (entries[active]) runEntry(entries[active]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-start justify-center px-3 pt-16 bg-black/50 backdrop-blur-sm"
+            onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+            <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden">
+                <input
+                    type="text"
+                    autoFocus
+                    value={query}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setSelected(0);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Rechercher une commande, une tâche, une issue, un mail…"
+                    className="w-full px-3 py-2.5 text-sm bg-transparent border-b border-gray-200 dark:border-gray-700
+                               text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none"
+                />
+                <div ref={listRef} className="max-h-72 overflow-y-auto py-1">
+                    {entries.length === 0 ? (
+                        <p className="px-3 py-2 text-xs text-gray-400 dark:text-gray-500">Aucun résultat</p>
+                    ) : entries.map((entry, index) => (
+                        <button
+                            key={entry.key}
+                            onClick={() => runEntry(entry)}
+                            onMouseMove={() => setSelected(index)}
+                            className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm transition-colors ${index === active
+                                ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                : 'text-gray-700 dark:text-gray-300'}`}
+                        >
+                            <span className="truncate">{entry.label}</span>
+                            <span className="flex-shrink-0 text-[10px] text-gray-400 dark:text-gray-500">{entry.hint}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
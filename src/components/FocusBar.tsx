@@ -0,0 +1,68 @@
+import type { FocusSession } from '../services/storageService';
+
+interface FocusBarProps {
+    session: FocusSession;
+    todoTitle?: string;
+    now: number;
+    onSkip: () => void;
+    onStop: () => void;
+}
+
+// Format the time left in the phase as m:ss
+const formatCountdown = (ms: number) => {
+    const seconds = Math.max(0, Math.ceil(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function FocusBar({ session, todoTitle, now, onSkip, onStop }: FocusBarProps) {
+    const isWork = session.phase === 'work';
+    const progress = Math.min(1, Math.max(0, (now - session.phaseStart) / (session.phaseEnd - session.phaseStart)));
+
+    return (
+        <div className={`px-3 py-2 border-b border-gray-200 dark:border-gray-700 ${isWork
+            ? 'bg-red-50 dark:bg-red-900/20'
+            : 'bg-green-50 dark:bg-green-900/20'}`}
+        >
+            <div className="flex items-center gap-2">
+                <span className={`text-xs font-semibold ${isWork ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    {isWork ? 'Focus' : 'Pause'}
+                </span>
+                <span className="flex-1 min-w-0 text-xs text-gray-700 dark:text-gray-300 truncate">
+                    {todoTitle ?? 'Tâche supprimée'}
+                </span>
+                <span className="text-sm font-semibold tabular-nums text-gray-800 dark:text-gray-200">
+                    {formatCountdown(session.phaseEnd - now)}
+                </span>
+                <button
+                    onClick={onSkip}
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    title={isWork ? 'Passer à la pause' : 'Reprendre le travail'}
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+                    </svg>
+                </button>
+                <button
+                    onClick={onStop}
+                    className="p-1 text-gray-400 hover:text-red-500"
+                    title="Arrêter le mode focus"
+                >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <rect x="6" y="6" width="12" height="12" rx="1" />
+                    </svg>
+                </button>
+            </div>
+            <div className="flex items-center gap-2 mt-1.5">
+                <div className="flex-1 h-1 rounded-full bg-white dark:bg-gray-800">
+                    <div
+                        className={`h-full rounded-full ${isWork ? 'bg-red-500' : 'bg-green-500'}`}
+                        style={{ width: `${progress * 100}%` }}
+                    />
+                </div>
+                <span className="text-[10px] text-gray-500 dark:text-gray-400">
+                    {session.completedPomodoros} pomodoro{session.completedPomodoros > 1 ? 's' : ''}
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -10,11 +10,13 @@ interface GitHubTabProps {
     cachedIssues: GitHubIssue[];
     lastFetch: number;
     onUpdateCache: (issues: GitHubIssue[]) => void;
+    focusIssueId?: string;
+    onFocusHandled?: () => void;
 }
 
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-export default function GitHubTab({ cachedIssues, lastFetch, onUpdateCache }: GitHubTabProps) {
+export default function GitHubTab({ cachedIssues, lastFetch, onUpdateCache, focusIssueId, onFocusHandled }: GitHubTabProps) {
     const [settings, setSettings] = useState<GitHubSettings | null>(null);
     const [issues, setIssues] = useState<GitHubIssue[]>(cachedIssues);
     const [loading, setLoading] = useState(false);
@@ -31,6 +33,16 @@ export default function GitHubTab({ cachedIssues, lastFetch, onUpdateCache }: Gi
         setIssues(cachedIssues);
     }, [cachedIssues]);
 
+    // Open the issue the panel was asked to show once it is loaded
+    useEffect(() => {
+        if (!focusIssueId) return;
+        const issue = issues.find(i => i.id === focusIssueId);
+        if (!issue) return;
+
+        setSelectedIssue(issue);
+        onFocusHandled?.();
+    }, [focusIssueId, issues, onFocusHandled]);
+
     const loadSettings = async () => {
         const storedSettings = await getGitHubSettings();
         setSettings(storedSettings);
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import type { GmailEmail } from '../services/gmailService';
 import { authenticateGmail, fetchEmails, markAsRead, markAsUnread, toggleStar, revokeGmailAuth, deleteEmail } from '../services/gmailService';
+import { getFetchedEmails } from '../services/storageService';
 import EmailDetailModal from './EmailDetailModal';
 
 type FilterType = 'starred' | 'unread';
@@ -12,9 +13,11 @@ interface GmailTabProps {
     gmailAuthenticated: boolean;
     onUpdateCache: (emails: GmailEmail[]) => void;
     onUpdateAuth: (token: string | null, authenticated: boolean) => void;
+    focusEmailId?: string;
+    onFocusHandled?: () => void;
 }
 
-export default function GmailTab({ cachedEmails, gmailToken, gmailAuthenticated, onUpdateCache, onUpdateAuth }: GmailTabProps) {
+export default function GmailTab({ cachedEmails, gmailToken, gmailAuthenticated, onUpdateCache, onUpdateAuth, focusEmailId, onFocusHandled }: GmailTabProps) {
     const [authenticated, setAuthenticated] = useState(gmailAuthenticated);
     const [token, setToken] = useState<string | null>(gmailToken);
     const [emails, setEmails] = useState<GmailEmail[]>(cachedEmails);
@@ -28,6 +31,23 @@ export default function GmailTab({ cachedEmails, gmailToken, gmailAuthenticated,
         setEmails(cachedEmails);
     }, [cachedEmails]);
 
+    // Open the email the panel was asked to show; it may come from a fetch with the other filter
+    useEffect(() => {
+        if (!focusEmailId) return;
+
+        const show = (email?: GmailEmail) => {
+            if (!email) return;
+            setSelectedEmail(email);
+            onFocusHandled?.();
+        };
+        const email = emails.find(e => e.id === focusEmailId);
+        if (email) {
+            show(email);
+        } else {
+            getFetchedEmails().then(fetched => show(fetched.find(e => e.id === focusEmailId)));
+        }
+    }, [focusEmailId, emails, onFocusHandled]);
+
     const handleAuthenticate = async () => {
         setLoading(true);
         setError(null);
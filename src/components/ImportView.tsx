@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import type { Category, Todo, TodoList } from '../services/storageService';
+import type { CsvMapping, ImportedTask, ImportSource } from '../services/importService';
+import type { IcsComponent } from '../services/icsService';
+import { exportIcs, downloadIcs, parseIcs } from '../services/icsService';
+import {
+    csvFields, parseCsv, guessCsvMapping, parseGenericCsv, parseTodoistCsv, parseTrelloJson, getMissingCategoryNames
+} from '../services/importService';
+
+interface ImportViewProps {
+    todos: Todo[];
+    categories: Category[];
+    todoLists: TodoList[];
+    defaultListId: string;
+    onImport: (tasks: ImportedTask[], listId: string) => Promise<void>;
+}
+
+const sources: { id: ImportSource; label: string; accept: string; hint: string }[] = [
+    { id: 'todoist', label: 'Todoist', accept: '.csv,text/csv', hint: 'Export CSV d\'un projet Todoist' },
+    { id: 'trello', label: 'Trello', accept: '.json,application/json', hint: 'Export JSON d\'un tableau Trello' },
+    { id: 'csv', label: 'CSV', accept: '.csv,text/csv', hint: 'Fichier CSV quelconque, colonnes à associer' },
+    { id: 'ics', label: 'Calendrier', accept: '.ics,text/calendar', hint: 'Fichier iCalendar (.ics), événements récurrents compris' }
+];
+
+const icsComponents: { id: IcsComponent; label: string }[] = [
+    { id: 'VEVENT', label: 'Événements' },
+    { id: 'VTODO', label: 'Tâches' }
+];
+
+const PREVIEW_SIZE = 5;
+
+export default function ImportView({ todos, categories, todoLists, defaultListId, onImport }: ImportViewProps) {
+    const [source, setSource] = useState<ImportSource>('todoist');
+    const [fileText, setFileText] = useState<string | null>(null);
+    const [projectName, setProjectName] = useState('');
+    const [csvRows, setCsvRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<CsvMapping | null>(null);
+    const [listId, setListId] = useState(defaultListId);
+    const [importing, setImporting] = useState(false);
+    const [icsComponent, setIcsComponent] = useState<IcsComponent>('VEVENT');
+
+    const reset = () => {
+        setFileText(null);
+        setCsvRows([]);
+        setMapping(null);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const text = await file.text();
+        setFileText(text);
+        setProjectName(file.name.replace(/\.[^.]+$/, ''));
+        if (source === 'csv') {
+            const rows = parseCsv(text);
+            setCsvRows(rows);
+            setMapping(guessCsvMapping(rows[0] ?? []));
+        }
+    };
+
+    // Parse on every render so the preview follows the mapping and project name
+    let tasks: ImportedTask[] = [];
+    let error: string | null = null;
+    if (fileText !== null) {
+        try {
+            if (source === 'todoist') {
+                tasks = parseTodoistCsv(fileText, projectName);
+            } else if (source === 'trello') {
+                tasks = parseTrelloJson(fileText);
+            } else if (source === 'ics') {
+                tasks = parseIcs(fileText);
+            } else if (mapping) {
+                tasks = parseGenericCsv(csvRows, mapping);
+            }
+        } catch (err) {
+            error = err instanceof Error ? err.message : 'Import impossible';
+        }
+    }
+    const missingCategories = getMissingCategoryNames(tasks, categories);
+    const warnedTasks = tasks.filter(t => t.warnings?.length);
+    const activeLists = todoLists.filter(l => !l.archived);
+    const scheduledCount = todos.filter(t => !t.deletedAt && t.startDate).length;
+    const updatedCount = tasks.filter(t => t.id && todos.some(todo => todo.id === t.id && !todo.deletedAt)).length;
+
+    const handleImport = async () => {
+        if (tasks.length === 0) return;
+        setImporting(true);
+        try {
+            await onImport(tasks, listId);
+            reset();
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const sourceInfo = sources.find(s => s.id === source) ?? sources[0];
+    const selectClass = `px-1.5 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                         bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300
+                         focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+    return (
+        <div className="flex flex-col h-full overflow-y-auto p-3 space-y-3">
+            {/* Source */}
+            <div className="flex gap-1">
+                {sources.map(s => (
+                    <button
+                        key={s.id}
+                        onClick={() => {
+                            setSource(s.id);
+                            reset();
+                        }}
+                        className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-lg border transition-colors ${source === s.id
+                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
+                            : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                    >
+                        {s.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="space-y-1">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{sourceInfo.hint}</p>
+                <input
+                    key={source}
+                    type="file"
+                    accept={sourceInfo.accept}
+                    onChange={handleFileChange}
+                    className="block w-full text-xs text-gray-600 dark:text-gray-400
+                               file:mr-2 file:px-2 file:py-1 file:rounded-lg file:border-0
+                               file:text-xs file:bg-gray-100 dark:file:bg-gray-700 file:text-gray-700 dark:file:text-gray-300"
+                />
+            </div>
+
+            {error && (
+                <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            )}
+
+            {/* Todoist exports one project per file */}
+            {fileText !== null && source === 'todoist' && (
+                <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    Projet
+                    <input
+                        type="text"
+                        value={projectName}
+                        onChange={(e) => setProjectName(e.target.value)}
+                        className="flex-1 min-w-0 px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </label>
+            )}
+
+            {/* Column mapping */}
+            {source === 'csv' && mapping && csvRows.length > 0 && (
+                <div className="space-y-1.5">
+                    <h3 className="text-xs font-medium text-gray-700 dark:text-gray-300">Colonnes</h3>
+                    {csvFields.map(field => (
+                        <label key={field.id} className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                            {field.label}
+                            <select
+                                value={mapping[field.id]}
+                                onChange={(e) => setMapping({ ...mapping, [field.id]: parseInt(e.target.value) })}
+                                className={`${selectClass} w-40`}
+                            >
+                                {field.id !== 'title' && <option value={-1}>Ignorer</option>}
+                                {csvRows[0].map((column, index) => (
+                                    <option key={index} value={index}>{column || `Colonne ${index + 1}`}</option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            {/* Preview */}
+            {fileText !== null && !error && (
+                <div className="space-y-2">
+                    <p className="text-xs text-gray-700 dark:text-gray-300">
+                        {tasks.length} tâche{tasks.length > 1 ? 's' : ''} à importer
+                        {updatedCount > 0 && ` (dont ${updatedCount} déjà présente${updatedCount > 1 ? 's' : ''}, mise${updatedCount > 1 ? 's' : ''} à jour)`}
+                    </p>
+                    {missingCategories.length > 0 && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Nouveaux labels : {missingCategories.join(', ')}
+                        </p>
+                    )}
+                    {warnedTasks.length > 0 && (
+                        <div className="space-y-0.5 text-xs text-amber-700 dark:text-amber-400">
+                            {warnedTasks.map((task, index) => (
+                                <p key={index}>{task.title} : {task.warnings?.join(' ; ')}</p>
+                            ))}
+                        </div>
+                    )}
+                    <div className="divide-y divide-gray-100 dark:divide-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                        {tasks.slice(0, PREVIEW_SIZE).map((task, index) => (
+                            <div key={index} className="flex items-center justify-between gap-2 px-2 py-1.5 text-xs">
+                                <span className={`truncate ${task.completed ? 'line-through text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                                    {task.title}
+                                </span>
+                                <span className="flex-shrink-0 text-[10px] text-gray-400 dark:text-gray-500">
+                                    {[
+                                        task.labels?.map(l => l.name).join(', '),
+                                        task.startDate && new Date(task.startDate).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit' })
+                                    ].filter(Boolean).join(' · ')}
+                                </span>
+                            </div>
+                        ))}
+                        {tasks.length > PREVIEW_SIZE && (
+                            <div className="px-2 py-1.5 text-[10px] text-gray-400 dark:text-gray-500">
+                                … et {tasks.length - PREVIEW_SIZE} autres
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <select value={listId} onChange={(e) => setListId(e.target.value)} className={`${selectClass} flex-1 min-w-0`}>
+                            {activeLists.map(list => (
+                                <option key={list.id} value={list.id}>{list.name}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleImport}
+                            disabled={importing || tasks.length === 0}
+                            className="px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300
+                                       dark:disabled:bg-gray-700 text-white disabled:text-gray-500 transition-colors"
+                        >
+                            {importing ? 'Import…' : 'Importer'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Calendar export */}
+            <div className="pt-3 space-y-2 border-t border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-700 dark:text-gray-300">Exporter vers un calendrier</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {scheduledCount} tâche{scheduledCount > 1 ? 's' : ''} planifiée{scheduledCount > 1 ? 's' : ''}, avec rappels, labels et récurrence.
+                </p>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={icsComponent}
+                        onChange={(e) => setIcsComponent(e.target.value as IcsComponent)}
+                        className={`${selectClass} flex-1 min-w-0`}
+                    >
+                        {icsComponents.map(c => (
+                            <option key={c.id} value={c.id}>{c.label}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => downloadIcs(exportIcs(todos, categories, icsComponent))}
+                        disabled={scheduledCount === 0}
+                        className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600
+                                   text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40"
+                    >
+                        Télécharger .ics
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,75 @@
-import { useState, useEffect } from 'react';
-import type { Todo, Category } from '../services/storageService';
-import { getTodos, addTodo, toggleTodo, deleteTodo, updateTodo, getCategories, saveTodos, addCategory, updateCategory, deleteCategory } from '../services/storageService';
+import { useState, useEffect, useCallback } from 'react';
+import type { Todo, TodoList, Category, BoardColumn, ActiveTimer, FocusSession, Recurrence, RecurrenceFrequency, Subtask, Priority } from '../services/storageService';
+import { getTodos, addTodo, toggleTodo, deleteTodo, restoreTodo, updateTodo, getCategories, saveTodos, addCategory, updateCategory, deleteCategory, restoreCategory, emptyTrash, getTrashRetentionDays, saveTrashRetentionDays, archiveCompletedTodos, getTodoLists, addTodoList, updateTodoList, deleteTodoList, getBoardColumns, saveBoardColumns, getTodoStatus, getTodoCategories, moveTodoToStatus, getActiveTimer, getFocusSession, INBOX_LIST_ID } from '../services/storageService';
 import { rescheduleReminders, cancelReminders } from '../services/reminderService';
+import { formatRecurrence, getMonthlyRuleFor } from '../services/recurrenceService';
+import type { SmartList, SortMode, TagFilterMode } from '../services/smartListService';
+import { smartLists, sortModes, tagFilterModes, priorities, isOverdue, isSnoozed, matchesSmartList, matchesTagFilter, sortForSmartList, sortTodos } from '../services/smartListService';
+import { snoozePresets, getSnoozeTime } from '../services/snoozeService';
+import SubtaskList from './SubtaskList';
+import TodoListSwitcher from './TodoListSwitcher';
+import QuickAddBar from './QuickAddBar';
+import TrashView from './TrashView';
+import ArchiveView from './ArchiveView';
+import ImportView from './ImportView';
+import BoardView from './BoardView';
+import TimeReportView from './TimeReportView';
+import FocusBar from './FocusBar';
+import type { ParsedQuickAdd, QuickAddRequest } from '../services/quickAddService';
+import { record, undo, redo } from '../services/historyService';
+import type { ImportedTask } from '../services/importService';
+import { importTasks } from '../services/importService';
+import { startTimer, stopTimer, formatDuration } from '../services/timeTrackingService';
+import { startFocus, stopFocus, skipFocusPhase } from '../services/focusService';
+import { getBlockers } from '../services/dependencyService';
+import { getActiveTab, getFaviconUrl, getLinkHost } from '../services/tabService';
 
-export default function PersoTab() {
+const TOAST_DURATION = 5000;
+const HIGHLIGHT_DURATION = 3000;
+
+type PersoView = 'todos' | 'trash' | 'archive' | 'import' | 'time';
+
+type TodoLayout = 'list' | 'board';
+
+interface HistoryToast {
+    message: string;
+    action: 'undo' | 'redo';
+}
+
+const weekdayOptions = [
+    { day: 1, label: 'L' },
+    { day: 2, label: 'M' },
+    { day: 3, label: 'M' },
+    { day: 4, label: 'J' },
+    { day: 5, label: 'V' },
+    { day: 6, label: 'S' },
+    { day: 0, label: 'D' }
+];
+
+// Short date and time of the end of a snooze
+const formatSnoozeTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('fr-FR', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Format a timestamp as the local YYYY-MM-DD value of a date input
+const toDateInputValue = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+interface PersoTabProps {
+    focusTodoId?: string;
+    onFocusHandled?: () => void;
+    quickAddRequest?: QuickAddRequest;
+    onQuickAddHandled?: () => void;
+}
+
+export default function PersoTab({ focusTodoId, onFocusHandled, quickAddRequest, onQuickAddHandled }: PersoTabProps) {
     const [todos, setTodos] = useState<Todo[]>([]);
     const [categories, setCategories] = useState<Category[]>([]);
+    const [todoLists, setTodoLists] = useState<TodoList[]>([]);
+    const [activeListId, setActiveListId] = useState(INBOX_LIST_ID);
     const [loading, setLoading] = useState(true);
     const [showForm, setShowForm] = useState(false);
     const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
@@ -15,27 +79,159 @@ export default function PersoTab() {
     const [editingCategory, setEditingCategory] = useState<Category | null>(null);
     const [newCategoryName, setNewCategoryName] = useState('');
     const [newCategoryColor, setNewCategoryColor] = useState('#a855f7');
+    const [smartList, setSmartList] = useState<SmartList>('all');
+    const [sortMode, setSortMode] = useState<SortMode>('manual');
+    const [tagFilter, setTagFilter] = useState<string[]>([]);
+    const [tagFilterMode, setTagFilterMode] = useState<TagFilterMode>('or');
+    const [toast, setToast] = useState<HistoryToast | null>(null);
+    const [view, setView] = useState<PersoView>('todos');
+    const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+    const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+    const [layout, setLayout] = useState<TodoLayout>('list');
+    const [boardColumns, setBoardColumns] = useState<BoardColumn[]>([]);
+    const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
+    const [focusSession, setFocusSession] = useState<FocusSession | null>(null);
+    const [timerNow, setTimerNow] = useState(() => Date.now());
+    const [highlightedTodoId, setHighlightedTodoId] = useState<string | null>(null);
 
     // Form state
     const [title, setTitle] = useState('');
     const [comment, setComment] = useState('');
-    const [categoryId, setCategoryId] = useState<string>('');
+    const [link, setLink] = useState('');
+    const [listId, setListId] = useState(INBOX_LIST_ID);
+    const [categoryIds, setCategoryIds] = useState<string[]>([]);
     const [startDate, setStartDate] = useState('');
     const [startTime, setStartTime] = useState('');
+    const [dueDate, setDueDate] = useState('');
+    const [priority, setPriority] = useState<Priority>(4);
     const [reminders, setReminders] = useState<number[]>([15]); // Default: 15min before
+    const [recurrenceFrequency, setRecurrenceFrequency] = useState<RecurrenceFrequency | ''>('');
+    const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+    const [recurrenceInterval, setRecurrenceInterval] = useState(7);
+    const [blockedBy, setBlockedBy] = useState<string[]>([]);
+    const [formError, setFormError] = useState('');
 
     useEffect(() => {
         loadData();
     }, []);
 
+    // The background worker owns the timer and the focus session, and creates todos
+    // from context menus: follow their changes
+    useEffect(() => {
+        if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return;
+
+        const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+            if (areaName === 'local' && 'todos' in changes) {
+                getTodos().then(setTodos);
+            }
+            if (areaName === 'local' && 'activeTimer' in changes) {
+                setActiveTimer((changes.activeTimer.newValue as ActiveTimer | undefined) ?? null);
+                setTimerNow(Date.now());
+            }
+            if (areaName === 'local' && 'focusSession' in changes) {
+                setFocusSession((changes.focusSession.newValue as FocusSession | undefined) ?? null);
+                setTimerNow(Date.now());
+            }
+        };
+
+        chrome.storage.onChanged.addListener(handleChange);
+        return () => chrome.storage.onChanged.removeListener(handleChange);
+    }, []);
+
+    // Show the todo the panel was asked to open on: its list, unfiltered, scrolled into view and highlighted
+    useEffect(() => {
+        if (!focusTodoId || loading) return;
+        const todo = todos.find(t => t.id === focusTodoId && !t.deletedAt);
+        if (!todo) return;
+
+        setView('todos');
+        setLayout('list');
+        setActiveListId(todo.listId);
+        setSmartList(isSnoozed(todo) ? 'snoozed' : 'all');
+        setTagFilter([]);
+        setCollapsedGroups([]);
+        setHighlightedTodoId(todo.id);
+        onFocusHandled?.();
+    }, [focusTodoId, todos, loading, onFocusHandled]);
+
+    useEffect(() => {
+        if (!highlightedTodoId) return;
+        document.getElementById(`todo-${highlightedTodoId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+        const timeout = setTimeout(() => setHighlightedTodoId(null), HIGHLIGHT_DURATION);
+        return () => clearTimeout(timeout);
+    }, [highlightedTodoId]);
+
+    // The quick-add bar only shows in the todo view, without the full form
+    useEffect(() => {
+        if (!quickAddRequest) return;
+        setView('todos');
+        setShowForm(false);
+        setEditingTodo(null);
+    }, [quickAddRequest]);
+
+    // Refresh the elapsed time of the running timer (every second for the focus countdown)
+    useEffect(() => {
+        if (!activeTimer && !focusSession) return;
+        const interval = setInterval(() => setTimerNow(Date.now()), focusSession ? 1000 : 30000);
+        return () => clearInterval(interval);
+    }, [activeTimer, focusSession]);
+
+    const handleHistory = useCallback(async (action: 'undo' | 'redo') => {
+        const restored = action === 'undo' ? await undo() : await redo();
+        if (!restored) return;
+
+        setTodos(restored.todos);
+        setCategories(restored.categories);
+        setToast(action === 'undo'
+            ? { message: `Annulé : ${restored.label}`, action: 'redo' }
+            : { message: `Rétabli : ${restored.label}`, action: 'undo' });
+    }, []);
+
+    // Ctrl+Z / Ctrl+Shift+Z (text fields keep their native undo)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable]')) return;
+
+            e.preventDefault();
+            handleHistory(e.shiftKey ? 'redo' : 'undo');
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleHistory]);
+
+    useEffect(() => {
+        if (!toast) return;
+        const timeout = setTimeout(() => setToast(null), TOAST_DURATION);
+        return () => clearTimeout(timeout);
+    }, [toast]);
+
+    // Record a mutation in the undo history and offer to undo it
+    const track = <T,>(label: string, mutation: () => Promise<T>): Promise<T> =>
+        record(label, mutation, () => setToast({ message: label, action: 'undo' }));
+
     const loadData = async () => {
         try {
-            const [loadedTodos, loadedCategories] = await Promise.all([
+            // Keep the active list small by archiving old completed todos first
+            await archiveCompletedTodos();
+            const [loadedTodos, loadedCategories, loadedLists, loadedRetention, loadedColumns, loadedTimer, loadedSession] = await Promise.all([
                 getTodos(),
-                getCategories()
+                getCategories(),
+                getTodoLists(),
+                getTrashRetentionDays(),
+                getBoardColumns(),
+                getActiveTimer(),
+                getFocusSession()
             ]);
             setTodos(loadedTodos);
             setCategories(loadedCategories);
+            setTodoLists(loadedLists);
+            setTrashRetentionDays(loadedRetention);
+            setBoardColumns(loadedColumns);
+            setActiveTimer(loadedTimer);
+            setFocusSession(loadedSession);
         } finally {
             setLoading(false);
         }
@@ -44,14 +240,41 @@ export default function PersoTab() {
     const resetForm = () => {
         setTitle('');
         setComment('');
-        setCategoryId('');
+        setLink('');
+        setListId(activeListId);
+        setCategoryIds([]);
         setStartDate('');
         setStartTime('');
+        setDueDate('');
+        setPriority(4);
         setReminders([15]);
+        setRecurrenceFrequency('');
+        setRecurrenceDays([]);
+        setRecurrenceInterval(7);
+        setBlockedBy([]);
+        setFormError('');
         setEditingTodo(null);
         setShowForm(false);
     };
 
+    const buildRecurrence = (start: number): Recurrence | undefined => {
+        switch (recurrenceFrequency) {
+            case 'weekly':
+                return {
+                    frequency: 'weekly',
+                    daysOfWeek: recurrenceDays.length > 0 ? recurrenceDays : [new Date(start).getDay()]
+                };
+            case 'monthly':
+                return getMonthlyRuleFor(start);
+            case 'afterCompletion':
+                return { frequency: 'afterCompletion', interval: Math.max(1, recurrenceInterval) };
+            case '':
+                return undefined;
+            default:
+                return { frequency: recurrenceFrequency };
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!title.trim()) return;
@@ -62,15 +285,30 @@ export default function PersoTab() {
             startDateTime = new Date(`${startDate}T${startTime}`).getTime();
         }
 
+        const recurrence = startDateTime ? buildRecurrence(startDateTime) : undefined;
+        const dueDateTime = dueDate ? new Date(`${dueDate}T00:00`).getTime() : undefined;
+
         if (editingTodo) {
             const updates = {
                 title: title.trim(),
                 comment: comment.trim() || undefined,
-                categoryId: categoryId || undefined,
+                link: link.trim() || undefined,
+                listId,
+                categoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+                priority: priority < 4 ? priority : undefined,
                 startDate: startDateTime,
-                reminders: startDateTime ? reminders : undefined
+                dueDate: dueDateTime,
+                reminders: startDateTime ? reminders : undefined,
+                recurrence,
+                blockedBy: blockedBy.length > 0 ? blockedBy : undefined
             };
-            await updateTodo(editingTodo.id, updates);
+            try {
+                await track('Tâche modifiée', () => updateTodo(editingTodo.id, updates));
+            } catch (error) {
+                // Dependency cycles are rejected by the storage
+                setFormError(error instanceof Error ? error.message : String(error));
+                return;
+            }
 
             // Update reminders
             if (startDateTime && reminders.length > 0) {
@@ -83,13 +321,18 @@ export default function PersoTab() {
                 t.id === editingTodo.id ? { ...t, ...updates } : t
             ));
         } else {
-            const newTodo = await addTodo(
-                title.trim(),
-                categoryId || undefined,
-                comment.trim() || undefined,
-                startDateTime,
-                startDateTime ? reminders : undefined
-            );
+            const newTodo = await track('Tâche ajoutée', () => addTodo(title.trim(), {
+                listId,
+                categoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+                comment: comment.trim() || undefined,
+                link: link.trim() || undefined,
+                priority: priority < 4 ? priority : undefined,
+                startDate: startDateTime,
+                dueDate: dueDateTime,
+                reminders: startDateTime ? reminders : undefined,
+                recurrence,
+                blockedBy: blockedBy.length > 0 ? blockedBy : undefined
+            }));
 
             // Schedule reminders
             if (startDateTime && reminders.length > 0) {
@@ -101,11 +344,54 @@ export default function PersoTab() {
         resetForm();
     };
 
+    const handleQuickAdd = async (parsed: ParsedQuickAdd) => {
+        const newTodo = await track('Tâche ajoutée', () => addTodo(parsed.title, {
+            listId: activeListId,
+            categoryIds: parsed.categoryIds,
+            priority: parsed.priority,
+            startDate: parsed.startDate,
+            reminders: parsed.startDate ? parsed.reminders || [15] : undefined
+        }));
+
+        if (newTodo.startDate && newTodo.reminders?.length) {
+            await rescheduleReminders(newTodo.id, newTodo.startDate, newTodo.reminders);
+        }
+
+        setTodos([...todos, newTodo]);
+    };
+
+    // Open the full form pre-filled with the quick-add result
+    const handleQuickAddDetails = (parsed: ParsedQuickAdd) => {
+        resetForm();
+        setTitle(parsed.title);
+        setCategoryIds(parsed.categoryIds || []);
+        setPriority(parsed.priority || 4);
+        if (parsed.startDate) {
+            setStartDate(toDateInputValue(parsed.startDate));
+            setStartTime(new Date(parsed.startDate).toTimeString().slice(0, 5));
+        }
+        setReminders(parsed.reminders || [15]);
+        setShowForm(true);
+    };
+
+    // Open the form pre-filled with the active tab's title and URL
+    const handleCaptureTab = async () => {
+        const tab = await getActiveTab();
+        if (!tab) return;
+
+        resetForm();
+        setTitle(tab.title);
+        setLink(tab.url);
+        setShowForm(true);
+    };
+
     const handleEdit = (todo: Todo) => {
         setEditingTodo(todo);
         setTitle(todo.title);
         setComment(todo.comment || '');
-        setCategoryId(todo.categoryId || '');
+        setLink(todo.link || '');
+        setListId(todo.listId);
+        setCategoryIds(todo.categoryIds || []);
 
         // Parse start date/time
         if (todo.startDate) {
@@ -117,31 +403,204 @@ export default function PersoTab() {
             setStartTime('');
         }
 
+        setDueDate(todo.dueDate ? toDateInputValue(todo.dueDate) : '');
+        setPriority(todo.priority || 4);
         setReminders(todo.reminders || [15]);
+        setRecurrenceFrequency(todo.recurrence?.frequency || '');
+        setRecurrenceDays(todo.recurrence?.daysOfWeek || []);
+        setRecurrenceInterval(todo.recurrence?.interval || 7);
+        setBlockedBy(todo.blockedBy || []);
+        setFormError('');
         setShowForm(true);
     };
 
+    // Start the timer on a todo, or stop it if it is already running there
+    const handleTimerToggle = async (id: string) => {
+        if (activeTimer?.todoId === id) {
+            await stopTimer();
+        } else {
+            await startTimer(id);
+        }
+        setActiveTimer(await getActiveTimer());
+        setTimerNow(Date.now());
+    };
+
+    const handleFocusStart = async (id: string) => {
+        await startFocus(id);
+        setFocusSession(await getFocusSession());
+        setTimerNow(Date.now());
+    };
+
+    // Hide a todo until `until`, or bring it back right away when undefined
+    const handleSnooze = async (id: string, until: number | undefined) => {
+        await track(until ? 'Tâche snoozée' : 'Tâche réveillée', () => updateTodo(id, { snoozedUntil: until }));
+        setTodos(todos.map(t => t.id === id ? { ...t, snoozedUntil: until } : t));
+    };
+
+    const handleFocusSkip = async () => {
+        await skipFocusPhase();
+        setFocusSession(await getFocusSession());
+        setTimerNow(Date.now());
+    };
+
+    const handleFocusStop = async () => {
+        await stopFocus();
+        setFocusSession(null);
+    };
+
     const handleToggle = async (id: string) => {
         const todo = todos.find(t => t.id === id);
-        await toggleTodo(id);
 
-        // Cancel reminders if completing task
+        // Optionally complete the remaining subtasks along with the parent
+        const remainingSubtasks = todo?.subtasks?.filter(s => !s.completed).length || 0;
+        const completeSubtasks = !!todo && !todo.completed && remainingSubtasks > 0
+            && confirm(`Terminer aussi ${remainingSubtasks > 1 ? `les ${remainingSubtasks} sous-tâches restantes` : 'la sous-tâche restante'} ?`);
+
+        const nextTodo = await track(
+            todo?.completed ? 'Tâche rouverte' : 'Tâche terminée',
+            () => toggleTodo(id, completeSubtasks)
+        );
+
+        // Reopening an occurrence may take its series back from the next one
+        if (todo?.completed && todo.nextOccurrenceId) {
+            setTodos(await getTodos());
+            return;
+        }
+        const completedAt = todo && !todo.completed ? Date.now() : undefined;
+
+        // Cancel reminders and stop the timer if completing task
         if (todo && !todo.completed) {
             await cancelReminders(id);
+            if (activeTimer?.todoId === id) {
+                await handleTimerToggle(id);
+            }
         }
 
+        const updatedTodos = todos.map(t =>
+            t.id === id
+                ? {
+                    ...t,
+                    completed: !t.completed,
+                    completedAt,
+                    status: undefined,
+                    recurrence: nextTodo ? undefined : t.recurrence,
+                    nextOccurrenceId: nextTodo?.id,
+                    subtasks: completeSubtasks ? t.subtasks?.map(s => ({ ...s, completed: true })) : t.subtasks
+                }
+                : t
+        );
+        setTodos(nextTodo ? [...updatedTodos, nextTodo] : updatedTodos);
+    };
+
+    const handleSubtasksChange = async (id: string, subtasks: Subtask[]) => {
+        await track('Sous-tâches modifiées', () => updateTodo(id, { subtasks }));
         setTodos(todos.map(t =>
-            t.id === id ? { ...t, completed: !t.completed } : t
+            t.id === id ? { ...t, subtasks } : t
         ));
     };
 
     const handleDelete = async (id: string) => {
         await cancelReminders(id);
-        await deleteTodo(id);
-        setTodos(todos.filter(t => t.id !== id));
+        await track('Tâche supprimée', () => deleteTodo(id));
+        setTodos(todos.map(t =>
+            t.id === id ? { ...t, deletedAt: Date.now() } : t
+        ));
+    };
+
+    const handleRestoreTodo = async (id: string) => {
+        const restored = await track('Tâche restaurée', () => restoreTodo(id));
+        if (!restored) return;
+
+        setTodos(todos.map(t => t.id === id ? restored : t));
+        // Restoring a todo also brings back its tags
+        setCategories(categories.map(c =>
+            restored.categoryIds?.includes(c.id) ? { ...c, deletedAt: undefined } : c
+        ));
+    };
+
+    const handleRestoreCategory = async (id: string) => {
+        await track('Label restauré', () => restoreCategory(id));
+        setCategories(categories.map(c =>
+            c.id === id ? { ...c, deletedAt: undefined } : c
+        ));
+    };
+
+    const handleEmptyTrash = async () => {
+        await track('Corbeille vidée', () => emptyTrash());
+        const [loadedTodos, loadedCategories] = await Promise.all([getTodos(), getCategories()]);
+        setTodos(loadedTodos);
+        setCategories(loadedCategories);
+    };
+
+    const handleReopenArchived = (todo: Todo) => {
+        setTodos([...todos, todo]);
+    };
+
+    const handleImport = async (tasks: ImportedTask[], targetListId: string) => {
+        const imported = await track(`${tasks.length} tâche${tasks.length > 1 ? 's' : ''} importée${tasks.length > 1 ? 's' : ''}`,
+            () => importTasks(tasks, targetListId));
+        const [loadedTodos, loadedCategories] = await Promise.all([getTodos(), getCategories()]);
+        setTodos(loadedTodos);
+        setCategories(loadedCategories);
+        if (imported.length > 0) {
+            setActiveListId(targetListId);
+            setView('todos');
+        }
+    };
+
+    const toggleView = (target: PersoView) => {
+        setView(view === target ? 'todos' : target);
+    };
+
+    const handleRetentionChange = async (days: number) => {
+        await saveTrashRetentionDays(days);
+        setTrashRetentionDays(days);
+    };
+
+    // Trashed items stay in state but are hidden everywhere except in the trash
+    const activeTodos = todos.filter(t => !t.deletedAt);
+    const activeCategories = categories.filter(c => !c.deletedAt);
+    const trashCount = todos.length - activeTodos.length + categories.length - activeCategories.length;
+
+
+    const handleSelectList = (id: string) => {
+        setActiveListId(id);
+        setListId(id);
+    };
+
+    const handleAddList = async (name: string) => {
+        const newList = await addTodoList(name);
+        setTodoLists([...todoLists, newList]);
+        handleSelectList(newList.id);
     };
 
-    const getCategory = (id?: string) => categories.find(c => c.id === id);
+    const handleRenameList = async (id: string, name: string) => {
+        await updateTodoList(id, { name });
+        setTodoLists(todoLists.map(l => l.id === id ? { ...l, name } : l));
+    };
+
+    const handleToggleArchiveList = async (id: string) => {
+        const list = todoLists.find(l => l.id === id);
+        if (!list) return;
+
+        await updateTodoList(id, { archived: !list.archived });
+        setTodoLists(todoLists.map(l => l.id === id ? { ...l, archived: !l.archived } : l));
+    };
+
+    const handleDeleteList = async (id: string) => {
+        await deleteTodoList(id);
+        setTodoLists(todoLists.filter(l => l.id !== id));
+        setTodos(todos.map(t => t.listId === id ? { ...t, listId: INBOX_LIST_ID } : t));
+        if (activeListId === id) {
+            handleSelectList(INBOX_LIST_ID);
+        }
+    };
+
+    const toggleGroup = (groupId: string) => {
+        setCollapsedGroups(collapsedGroups.includes(groupId)
+            ? collapsedGroups.filter(g => g !== groupId)
+            : [...collapsedGroups, groupId]);
+    };
 
     const handleAddCategory = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -149,10 +608,10 @@ export default function PersoTab() {
         if (!newCategoryName.trim()) return;
 
         if (editingCategory) {
-            await updateCategory(editingCategory.id, {
+            await track('Label modifié', () => updateCategory(editingCategory.id, {
                 name: newCategoryName.trim(),
                 color: newCategoryColor
-            });
+            }));
             setCategories(categories.map(c => 
                 c.id === editingCategory.id 
                     ? { ...c, name: newCategoryName.trim(), color: newCategoryColor }
@@ -160,7 +619,7 @@ export default function PersoTab() {
             ));
             setEditingCategory(null);
         } else {
-            const newCategory = await addCategory(newCategoryName.trim(), newCategoryColor);
+            const newCategory = await track('Label ajouté', () => addCategory(newCategoryName.trim(), newCategoryColor));
             setCategories([...categories, newCategory]);
         }
         
@@ -177,15 +636,11 @@ export default function PersoTab() {
     };
 
     const handleDeleteCategory = async (id: string) => {
-        if (confirm('Êtes-vous sûr de vouloir supprimer ce label ? Les tâches associées ne perdront pas leur label mais il ne sera plus visible.')) {
-            await deleteCategory(id);
-            setCategories(categories.filter(c => c.id !== id));
-            // Retirer le label des tâches qui l'utilisent
-            const updatedTodos = todos.map(t => 
-                t.categoryId === id ? { ...t, categoryId: undefined } : t
-            );
-            setTodos(updatedTodos);
-            await saveTodos(updatedTodos);
+        if (confirm('Placer ce label dans la corbeille ? Il ne sera plus visible sur les tâches, mais sera rattaché à nouveau en cas de restauration.')) {
+            await track('Label supprimé', () => deleteCategory(id));
+            setCategories(categories.map(c =>
+                c.id === id ? { ...c, deletedAt: Date.now() } : c
+            ));
         }
     };
 
@@ -212,29 +667,64 @@ export default function PersoTab() {
 
         if (!draggedTodo || draggedTodo.id === targetTodo.id) return;
 
-        // Reorder only if target is not completed (we don't drag-drop completed items usually)
-        if (targetTodo.completed) return;
+        // Reorder only if target is not completed (we don't drag-drop completed items usually),
+        // except on the board where completed todos are the cards of the terminal column
+        if (targetTodo.completed && layout === 'list') return;
 
         const sourceIndex = todos.findIndex(t => t.id === draggedTodo.id);
         const targetIndex = todos.findIndex(t => t.id === targetTodo.id);
+        const targetStatus = getTodoStatus(targetTodo, boardColumns);
 
         if (sourceIndex !== -1 && targetIndex !== -1 && sourceIndex !== targetIndex) {
             const newTodos = [...todos];
             const [movedItem] = newTodos.splice(sourceIndex, 1);
-            newTodos.splice(targetIndex, 0, movedItem);
+            newTodos.splice(targetIndex, 0, layout === 'board' ? { ...movedItem, status: targetStatus } : movedItem);
             setTodos(newTodos);
         }
     };
 
+    // Dragging over a board column (e.g. an empty one) moves the card there
+    const handleColumnDragOver = (e: React.DragEvent, columnId: string) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (!draggedTodo) return;
+
+        const current = todos.find(t => t.id === draggedTodo.id);
+        if (current && getTodoStatus(current, boardColumns) !== columnId) {
+            setTodos(todos.map(t => t.id === current.id ? { ...t, status: columnId } : t));
+        }
+    };
+
     const handleDrop = async (e: React.DragEvent) => {
         e.preventDefault();
-        if (draggedTodo) {
-            await saveTodos(todos);
-            setDraggedTodo(null);
+        e.stopPropagation();
+        if (!draggedTodo) return;
+
+        const moved = todos.find(t => t.id === draggedTodo.id);
+        const status = moved && layout === 'board' ? moved.status : undefined;
+        if (status && status !== getTodoStatus(draggedTodo, boardColumns)) {
+            // Keep the new position, then let the column change complete or reopen the todo
+            await track('Tâche déplacée', async () => {
+                await saveTodos(todos.map(t => t.id === draggedTodo.id ? { ...t, status: draggedTodo.status } : t));
+                await moveTodoToStatus(draggedTodo.id, status);
+            });
+            setTodos(await getTodos());
+        } else {
+            await track('Tâches réordonnées', () => saveTodos(todos));
         }
+        setDraggedTodo(null);
+    };
+
+    const handleColumnsChange = async (columns: BoardColumn[]) => {
+        setBoardColumns(columns);
+        await saveBoardColumns(columns);
     };
 
     const handleDragEnd = () => {
+        // A drag cancelled outside any column leaves the card where it was
+        if (draggedTodo && layout === 'board') {
+            setTodos(todos.map(t => t.id === draggedTodo.id ? { ...t, status: draggedTodo.status } : t));
+        }
         setDraggedTodo(null);
     };
 
@@ -246,356 +736,900 @@ export default function PersoTab() {
         );
     }
 
-    const pendingTodos = todos.filter(t => !t.completed);
-    const completedTodos = todos.filter(t => t.completed);
+    const now = Date.now();
+    const activeTagFilter = tagFilter.filter(id => activeCategories.some(c => c.id === id));
+    const listTodos = activeTodos.filter(t => t.listId === activeListId && matchesTagFilter(t, activeTagFilter, tagFilterMode));
+    const filteredTodos = listTodos.filter(t => !t.completed && matchesSmartList(t, smartList, now));
+    // An explicit sort mode takes precedence over the smart list's own sorting
+    const pendingTodos = sortMode === 'manual' || sortMode === 'category'
+        ? sortForSmartList(filteredTodos, smartList)
+        : sortTodos(filteredTodos, sortMode);
+    const canReorder = smartList === 'all' && activeTagFilter.length === 0 && (sortMode === 'manual' || sortMode === 'category');
+    // Completed todos are only listed in the full view
+    const completedTodos = smartList === 'all' ? listTodos.filter(t => t.completed) : [];
+    // The board keeps the stored order, which is each card's position in its column
+    const boardTodos = listTodos.filter(t => smartList === 'all' ? !isSnoozed(t, now) : !t.completed && matchesSmartList(t, smartList, now));
+    const countFor = (list: SmartList) => listTodos.filter(t => !t.completed && matchesSmartList(t, list, now)).length;
+    const pendingCounts = activeTodos.reduce<Record<string, number>>((counts, t) => {
+        if (!t.completed && !isSnoozed(t, now)) {
+            counts[t.listId] = (counts[t.listId] || 0) + 1;
+        }
+        return counts;
+    }, {});
+
+    // Tag groups, in label order, with untagged todos last (a todo shows in each of its tags)
+    const categoryGroups = sortMode === 'category'
+        ? [
+            ...activeCategories.map(cat => ({
+                id: cat.id,
+                name: cat.name,
+                color: cat.color,
+                todos: pendingTodos.filter(t => t.categoryIds?.includes(cat.id))
+            })),
+            {
+                id: '',
+                name: 'Sans label',
+                color: '#9ca3af',
+                todos: pendingTodos.filter(t => getTodoCategories(t, categories).length === 0)
+            }
+        ].filter(group => group.todos.length > 0)
+        : [];
+
+    const renderPendingTodo = (todo: Todo) => (
+        <TodoItem
+            key={todo.id}
+            todo={todo}
+            tags={getTodoCategories(todo, categories)}
+            onToggle={handleToggle}
+            onEdit={handleEdit}
+            onDelete={handleDelete}
+            onSubtasksChange={handleSubtasksChange}
+            timerElapsed={activeTimer?.todoId === todo.id ? Math.max(0, timerNow - activeTimer.start) : undefined}
+            onTimerToggle={handleTimerToggle}
+            onFocusStart={handleFocusStart}
+            onSnooze={handleSnooze}
+            blockers={getBlockers(todo, activeTodos)}
+            highlighted={highlightedTodoId === todo.id}
+            draggable={canReorder}
+            onDragStart={(e) => handleDragStart(e, todo)}
+            onDragOver={(e) => handleDragOver(e, todo)}
+            onDrop={handleDrop}
+            onDragEnd={handleDragEnd}
+            isDragging={draggedTodo?.id === todo.id}
+        />
+    );
 
     return (
-        <div className="flex flex-col h-full">
+        <div className="relative flex flex-col h-full">
             {/* Header with settings button */}
             <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
-                <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Tâches personnelles</h2>
-                <button
-                    onClick={() => setShowCategoryManager(!showCategoryManager)}
-                    className="p-1.5 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
-                    title="Gérer les labels"
-                >
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    </svg>
-                </button>
+                <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                    {view === 'trash' ? 'Corbeille' : view === 'archive' ? 'Archive' : view === 'import' ? 'Importer / exporter' : view === 'time' ? 'Temps passé' : 'Tâches personnelles'}
+                </h2>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => toggleView('time')}
+                        className={`p-1.5 rounded-lg transition-colors ${view === 'time'
+                            ? 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200'
+                            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                        title={view === 'time' ? 'Retour aux tâches' : 'Temps passé'}
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                    </button>
+                    <button
+                        onClick={() => toggleView('import')}
+                        className={`p-1.5 rounded-lg transition-colors ${view === 'import'
+                            ? 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200'
+                            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                        title={view === 'import' ? 'Retour aux tâches' : 'Importer / exporter (Todoist, Trello, CSV, .ics)'}
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                        </svg>
+                    </button>
+                    <button
+                        onClick={() => toggleView('archive')}
+                        className={`p-1.5 rounded-lg transition-colors ${view === 'archive'
+                            ? 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200'
+                            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                        title={view === 'archive' ? 'Retour aux tâches' : 'Archive'}
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                        </svg>
+                    </button>
+                    <button
+                        onClick={() => toggleView('trash')}
+                        className={`relative p-1.5 rounded-lg transition-colors ${view === 'trash'
+                            ? 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200'
+                            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                        title={view === 'trash' ? 'Retour aux tâches' : 'Corbeille'}
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                        {trashCount > 0 && (
+                            <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-gray-400 dark:bg-gray-600 text-white text-[9px] leading-[14px] text-center">
+                                {trashCount}
+                            </span>
+                        )}
+                    </button>
+                    <button
+                        onClick={() => setShowCategoryManager(!showCategoryManager)}
+                        className="p-1.5 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                        title="Gérer les labels"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        </svg>
+                    </button>
+                </div>
             </div>
 
-            {/* Category Manager */}
-            {showCategoryManager && (
-                <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
-                    <div className="flex items-center justify-between mb-3">
-                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Gestion des labels</h3>
+            {focusSession && (
+                <FocusBar
+                    session={focusSession}
+                    todoTitle={todos.find(t => t.id === focusSession.todoId)?.title}
+                    now={timerNow}
+                    onSkip={handleFocusSkip}
+                    onStop={handleFocusStop}
+                />
+            )}
+
+            {view === 'time' ? (
+                <div className="flex-1 overflow-hidden">
+                    <TimeReportView
+                        todos={todos}
+                        categories={categories}
+                        activeTimer={activeTimer}
+                        focusSession={focusSession}
+                    />
+                </div>
+            ) : view === 'import' ? (
+                <div className="flex-1 overflow-hidden">
+                    <ImportView
+                        todos={todos}
+                        categories={activeCategories}
+                        todoLists={todoLists}
+                        defaultListId={activeListId}
+                        onImport={handleImport}
+                    />
+                </div>
+            ) : view === 'archive' ? (
+                <div className="flex-1 overflow-hidden">
+                    <ArchiveView
+                        categories={activeCategories}
+                        onReopen={handleReopenArchived}
+                    />
+                </div>
+            ) : view === 'trash' ? (
+                <div className="flex-1 overflow-hidden">
+                    <TrashView
+                        todos={todos}
+                        categories={categories}
+                        retentionDays={trashRetentionDays}
+                        onRestoreTodo={handleRestoreTodo}
+                        onRestoreCategory={handleRestoreCategory}
+                        onEmpty={handleEmptyTrash}
+                        onRetentionChange={handleRetentionChange}
+                    />
+                </div>
+            ) : (
+                <>
+                    {/* List switcher */}
+                    <TodoListSwitcher
+                        lists={todoLists}
+                        activeListId={activeListId}
+                        pendingCounts={pendingCounts}
+                        onSelect={handleSelectList}
+                        onAdd={handleAddList}
+                        onRename={handleRenameList}
+                        onToggleArchive={handleToggleArchiveList}
+                        onDelete={handleDeleteList}
+                    />
+
+                    {/* Category Manager */}
+                    {showCategoryManager && (
+                        <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+                            <div className="flex items-center justify-between mb-3">
+                                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Gestion des labels</h3>
+                                <button
+                                    onClick={() => {
+                                        resetCategoryForm();
+                                        setShowCategoryForm(true);
+                                    }}
+                                    className="px-2 py-1 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600
+                                               text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800
+                                               flex items-center gap-1"
+                                >
+                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                                    </svg>
+                                    Nouveau label
+                                </button>
+                            </div>
+
+                            {/* Formulaire de création/édition de catégorie */}
+                            {showCategoryForm && (
+                                <form onSubmit={handleAddCategory} className="mb-3 p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+                                    <div className="flex gap-2 items-end">
+                                        <div className="flex-1">
+                                            <input
+                                                type="text"
+                                                value={newCategoryName}
+                                                onChange={(e) => setNewCategoryName(e.target.value)}
+                                                placeholder="Nom du label..."
+                                                className="w-full px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                                           bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                autoFocus
+                                            />
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <input
+                                                type="color"
+                                                value={newCategoryColor}
+                                                onChange={(e) => setNewCategoryColor(e.target.value)}
+                                                className="w-10 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                                                title="Choisir une couleur"
+                                            />
+                                            <button
+                                                type="submit"
+                                                disabled={!newCategoryName.trim()}
+                                                className="px-3 py-1.5 text-xs font-medium rounded-lg
+                                                           bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700
+                                                           text-white disabled:text-gray-500 transition-colors"
+                                            >
+                                                {editingCategory ? 'Modifier' : 'Créer'}
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={resetCategoryForm}
+                                                className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                                           text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                                            >
+                                                Annuler
+                                            </button>
+                                        </div>
+                                    </div>
+                                </form>
+                            )}
+
+                            {/* Liste des labels */}
+                            <div className="space-y-1">
+                                {activeCategories.length === 0 ? (
+                                    <p className="text-xs text-gray-400 dark:text-gray-500 text-center py-2">Aucun label</p>
+                                ) : (
+                                    activeCategories.map(cat => (
+                                        <div
+                                            key={cat.id}
+                                            className="flex items-center justify-between p-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+                                        >
+                                            <div className="flex items-center gap-2 flex-1">
+                                                <div
+                                                    className="w-4 h-4 rounded-full"
+                                                    style={{ backgroundColor: cat.color }}
+                                                />
+                                                <span className="text-xs font-medium text-gray-700 dark:text-gray-300">{cat.name}</span>
+                                                <span
+                                                    className="px-1.5 py-0.5 text-[10px] font-medium rounded-full"
+                                                    style={{
+                                                        backgroundColor: `${cat.color}20`,
+                                                        color: cat.color
+                                                    }}
+                                                >
+                                                    {cat.name}
+                                                </span>
+                                            </div>
+                                            <div className="flex items-center gap-1">
+                                                <button
+                                                    onClick={() => handleEditCategory(cat)}
+                                                    className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                                                    title="Modifier"
+                                                >
+                                                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                                    </svg>
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDeleteCategory(cat.id)}
+                                                    className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                                                    title="Supprimer"
+                                                >
+                                                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                                    </svg>
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Smart lists */}
+                    <div className="flex gap-1 px-3 py-2 overflow-x-auto border-b border-gray-200 dark:border-gray-700">
+                        {smartLists.map(list => {
+                            const count = countFor(list.id);
+                            const isActive = smartList === list.id;
+                            return (
+                                <button
+                                    key={list.id}
+                                    onClick={() => setSmartList(list.id)}
+                                    className={`px-2 py-1 text-xs rounded-full whitespace-nowrap flex items-center gap-1 transition-colors
+                                               ${isActive
+                                            ? 'bg-blue-500 text-white'
+                                            : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                                >
+                                    {list.label}
+                                    <span className={`text-[10px] ${isActive
+                                        ? 'text-blue-100'
+                                        : list.id === 'overdue' && count > 0
+                                            ? 'text-red-500 font-semibold'
+                                            : 'text-gray-400 dark:text-gray-500'}`}>
+                                        {count}
+                                    </span>
+                                </button>
+                            );
+                        })}
+                        {layout === 'list' && (
+                            <select
+                                value={sortMode}
+                                onChange={(e) => setSortMode(e.target.value as SortMode)}
+                                className="ml-auto px-1.5 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                           bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400
+                                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                title="Trier / grouper"
+                            >
+                                {sortModes.map(mode => (
+                                    <option key={mode.id} value={mode.id}>{mode.label}</option>
+                                ))}
+                            </select>
+                        )}
                         <button
-                            onClick={() => {
-                                resetCategoryForm();
-                                setShowCategoryForm(true);
-                            }}
-                            className="px-2 py-1 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600
-                                       text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800
-                                       flex items-center gap-1"
+                            onClick={() => setLayout(layout === 'list' ? 'board' : 'list')}
+                            className={`${layout === 'board' ? 'ml-auto' : ''} p-1 rounded-lg text-gray-500 dark:text-gray-400
+                                       hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200 transition-colors`}
+                            title={layout === 'list' ? 'Vue tableau' : 'Vue liste'}
                         >
-                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                            </svg>
-                            Nouveau label
+                            {layout === 'list' ? (
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                                </svg>
+                            ) : (
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                                </svg>
+                            )}
                         </button>
                     </div>
 
-                    {/* Formulaire de création/édition de catégorie */}
-                    {showCategoryForm && (
-                        <form onSubmit={handleAddCategory} className="mb-3 p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
-                            <div className="flex gap-2 items-end">
-                                <div className="flex-1">
-                                    <input
-                                        type="text"
-                                        value={newCategoryName}
-                                        onChange={(e) => setNewCategoryName(e.target.value)}
-                                        placeholder="Nom du label..."
-                                        className="w-full px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
-                                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
-                                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
-                                        autoFocus
-                                    />
-                                </div>
-                                <div className="flex items-center gap-2">
-                                    <input
-                                        type="color"
-                                        value={newCategoryColor}
-                                        onChange={(e) => setNewCategoryColor(e.target.value)}
-                                        className="w-10 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
-                                        title="Choisir une couleur"
-                                    />
+                    {/* Tag filter */}
+                    {activeCategories.length > 0 && (
+                        <div className="flex items-center gap-1 px-3 py-1.5 overflow-x-auto border-b border-gray-200 dark:border-gray-700">
+                            {activeCategories.map(cat => {
+                                const isActive = activeTagFilter.includes(cat.id);
+                                return (
                                     <button
-                                        type="submit"
-                                        disabled={!newCategoryName.trim()}
-                                        className="px-3 py-1.5 text-xs font-medium rounded-lg
-                                                   bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700
-                                                   text-white disabled:text-gray-500 transition-colors"
+                                        key={cat.id}
+                                        onClick={() => setTagFilter(isActive
+                                            ? activeTagFilter.filter(id => id !== cat.id)
+                                            : [...activeTagFilter, cat.id])}
+                                        className="px-2 py-0.5 text-[10px] font-medium rounded-full whitespace-nowrap border transition-colors"
+                                        style={{
+                                            backgroundColor: isActive ? `${cat.color}30` : 'transparent',
+                                            color: cat.color,
+                                            borderColor: isActive ? cat.color : `${cat.color}40`
+                                        }}
                                     >
-                                        {editingCategory ? 'Modifier' : 'Créer'}
+                                        {cat.name}
                                     </button>
+                                );
+                            })}
+                            {activeTagFilter.length > 1 && (
+                                <select
+                                    value={tagFilterMode}
+                                    onChange={(e) => setTagFilterMode(e.target.value as TagFilterMode)}
+                                    className="ml-auto px-1.5 py-0.5 text-[10px] rounded-lg border border-gray-300 dark:border-gray-600
+                                               bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400
+                                               focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    title="Combinaison des labels"
+                                >
+                                    {tagFilterModes.map(mode => (
+                                        <option key={mode.id} value={mode.id}>{mode.label}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {activeTagFilter.length > 0 && (
+                                <button
+                                    onClick={() => setTagFilter([])}
+                                    className={`${activeTagFilter.length > 1 ? '' : 'ml-auto'} px-1.5 py-0.5 text-[10px] text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 whitespace-nowrap`}
+                                    title="Retirer le filtre"
+                                >
+                                    Effacer
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Natural-language quick add */}
+                    {!showForm && (
+                        <QuickAddBar
+                            categories={activeCategories}
+                            onAdd={handleQuickAdd}
+                            onOpenForm={handleQuickAddDetails}
+                            request={quickAddRequest}
+                            onRequestHandled={onQuickAddHandled}
+                        />
+                    )}
+
+                    {/* Add button or form */}
+                    {showForm ? (
+                        <form onSubmit={handleSubmit} className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-3">
+                            <input
+                                type="text"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                placeholder="Titre de la tâche..."
+                                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                           bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                autoFocus
+                            />
+
+                            {/* Tag selector (several tags can be picked) */}
+                            <div className="flex gap-2 flex-wrap">
+                                <button
+                                    type="button"
+                                    onClick={() => setCategoryIds([])}
+                                    className={`px-2 py-1 text-xs rounded-full border transition-colors ${categoryIds.length === 0
+                                        ? 'bg-gray-200 dark:bg-gray-700 border-gray-400 dark:border-gray-500'
+                                        : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800'
+                                        }`}
+                                >
+                                    Sans catégorie
+                                </button>
+                                {activeCategories.map(cat => (
                                     <button
+                                        key={cat.id}
                                         type="button"
-                                        onClick={resetCategoryForm}
-                                        className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600
-                                                   text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                                        onClick={() => setCategoryIds(categoryIds.includes(cat.id)
+                                            ? categoryIds.filter(id => id !== cat.id)
+                                            : [...categoryIds, cat.id])}
+                                        className={`px-2 py-1 text-xs rounded-full border transition-colors ${categoryIds.includes(cat.id)
+                                            ? 'border-current'
+                                            : 'border-transparent hover:opacity-80'
+                                            }`}
+                                        style={{
+                                            backgroundColor: `${cat.color}20`,
+                                            color: cat.color,
+                                            borderColor: categoryIds.includes(cat.id) ? cat.color : 'transparent'
+                                        }}
                                     >
-                                        Annuler
+                                        {cat.name}
                                     </button>
-                                </div>
+                                ))}
                             </div>
-                        </form>
-                    )}
 
-                    {/* Liste des labels */}
-                    <div className="space-y-1">
-                        {categories.length === 0 ? (
-                            <p className="text-xs text-gray-400 dark:text-gray-500 text-center py-2">Aucun label</p>
-                        ) : (
-                            categories.map(cat => (
-                                <div
-                                    key={cat.id}
-                                    className="flex items-center justify-between p-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+                            {/* List selector */}
+                            {todoLists.length > 1 && (
+                                <select
+                                    value={listId}
+                                    onChange={(e) => setListId(e.target.value)}
+                                    className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                               bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                               focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    title="Liste"
                                 >
-                                    <div className="flex items-center gap-2 flex-1">
-                                        <div
-                                            className="w-4 h-4 rounded-full"
-                                            style={{ backgroundColor: cat.color }}
-                                        />
-                                        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">{cat.name}</span>
-                                        <span
-                                            className="px-1.5 py-0.5 text-[10px] font-medium rounded-full"
-                                            style={{
-                                                backgroundColor: `${cat.color}20`,
-                                                color: cat.color
-                                            }}
-                                        >
-                                            {cat.name}
-                                        </span>
-                                    </div>
-                                    <div className="flex items-center gap-1">
-                                        <button
-                                            onClick={() => handleEditCategory(cat)}
-                                            className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
-                                            title="Modifier"
-                                        >
-                                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                                            </svg>
-                                        </button>
-                                        <button
-                                            onClick={() => handleDeleteCategory(cat.id)}
-                                            className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-                                            title="Supprimer"
-                                        >
-                                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                            </svg>
-                                        </button>
-                                    </div>
-                                </div>
-                            ))
-                        )}
-                    </div>
-                </div>
-            )}
-
-            {/* Add button or form */}
-            {showForm ? (
-                <form onSubmit={handleSubmit} className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-3">
-                    <input
-                        type="text"
-                        value={title}
-                        onChange={(e) => setTitle(e.target.value)}
-                        placeholder="Titre de la tâche..."
-                        className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
-                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
-                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        autoFocus
-                    />
-
-                    {/* Category selector */}
-                    <div className="flex gap-2 flex-wrap">
-                        <button
-                            type="button"
-                            onClick={() => setCategoryId('')}
-                            className={`px-2 py-1 text-xs rounded-full border transition-colors ${!categoryId
-                                ? 'bg-gray-200 dark:bg-gray-700 border-gray-400 dark:border-gray-500'
-                                : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800'
-                                }`}
-                        >
-                            Sans catégorie
-                        </button>
-                        {categories.map(cat => (
-                            <button
-                                key={cat.id}
-                                type="button"
-                                onClick={() => setCategoryId(cat.id)}
-                                className={`px-2 py-1 text-xs rounded-full border transition-colors ${categoryId === cat.id
-                                    ? 'border-current'
-                                    : 'border-transparent hover:opacity-80'
-                                    }`}
-                                style={{
-                                    backgroundColor: `${cat.color}20`,
-                                    color: cat.color,
-                                    borderColor: categoryId === cat.id ? cat.color : 'transparent'
-                                }}
-                            >
-                                {cat.name}
-                            </button>
-                        ))}
-                    </div>
+                                    {todoLists.map(list => (
+                                        <option key={list.id} value={list.id}>
+                                            {list.name}{list.archived ? ' (archivée)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
 
-                    <textarea
-                        value={comment}
-                        onChange={(e) => setComment(e.target.value)}
-                        placeholder="Commentaire (optionnel)..."
-                        rows={2}
-                        className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
-                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
-                                   focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
-                    />
+                            {/* Priority selector */}
+                            <div className="flex gap-2">
+                                {priorities.map(p => (
+                                    <button
+                                        key={p.id}
+                                        type="button"
+                                        onClick={() => setPriority(p.id)}
+                                        className="flex-1 px-2 py-1 text-xs font-medium rounded-lg border transition-colors"
+                                        style={{
+                                            color: p.color,
+                                            backgroundColor: priority === p.id ? `${p.color}20` : 'transparent',
+                                            borderColor: priority === p.id ? p.color : `${p.color}40`
+                                        }}
+                                    >
+                                        {p.label}
+                                    </button>
+                                ))}
+                            </div>
 
-                    {/* Date and Time */}
-                    <div className="space-y-2">
-                        <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
-                            Date et heure de début (optionnel)
-                        </label>
-                        <div className="flex gap-2">
-                            <input
-                                type="date"
-                                value={startDate}
-                                onChange={(e) => setStartDate(e.target.value)}
-                                className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                            <textarea
+                                value={comment}
+                                onChange={(e) => setComment(e.target.value)}
+                                placeholder="Commentaire (optionnel)..."
+                                rows={2}
+                                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
                                            bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
-                                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                           focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
                             />
+
                             <input
-                                type="time"
-                                value={startTime}
-                                onChange={(e) => setStartTime(e.target.value)}
-                                disabled={!startDate}
-                                className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                type="url"
+                                value={link}
+                                onChange={(e) => setLink(e.target.value)}
+                                placeholder="Lien (optionnel)..."
+                                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
                                            bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
-                                           focus:outline-none focus:ring-2 focus:ring-blue-500
-                                           disabled:opacity-50 disabled:cursor-not-allowed"
+                                           focus:outline-none focus:ring-2 focus:ring-blue-500"
                             />
-                        </div>
-                    </div>
 
-                    {/* Reminders */}
-                    {startDate && startTime && (
-                        <div className="space-y-2">
-                            <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
-                                Rappels
-                            </label>
-                            <div className="flex gap-2 flex-wrap">
-                                {[15, 60, 1440].map(minutes => {
-                                    const label = minutes === 15 ? '15 min' : minutes === 60 ? '1 heure' : '1 jour';
-                                    const isSelected = reminders.includes(minutes);
-                                    return (
-                                        <button
-                                            key={minutes}
-                                            type="button"
-                                            onClick={() => {
-                                                if (isSelected) {
-                                                    setReminders(reminders.filter(m => m !== minutes));
-                                                } else {
-                                                    setReminders([...reminders, minutes]);
-                                                }
-                                            }}
-                                            className={`px-3 py-1.5 text-xs rounded-lg border transition-colors ${isSelected
-                                                ? 'bg-blue-500 border-blue-500 text-white'
-                                                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
-                                                }`}
-                                        >
-                                            {label} avant
-                                        </button>
-                                    );
-                                })}
+                            {/* Date and Time */}
+                            <div className="space-y-2">
+                                <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                                    Date et heure de début (optionnel)
+                                </label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="date"
+                                        value={startDate}
+                                        onChange={(e) => setStartDate(e.target.value)}
+                                        className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                    <input
+                                        type="time"
+                                        value={startTime}
+                                        onChange={(e) => setStartTime(e.target.value)}
+                                        disabled={!startDate}
+                                        className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                                   focus:outline-none focus:ring-2 focus:ring-blue-500
+                                                   disabled:opacity-50 disabled:cursor-not-allowed"
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Due date */}
+                            <div className="space-y-2">
+                                <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                                    Échéance (optionnel)
+                                </label>
+                                <input
+                                    type="date"
+                                    value={dueDate}
+                                    onChange={(e) => setDueDate(e.target.value)}
+                                    className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                               bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                               focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+
+                            {/* Reminders */}
+                            {startDate && startTime && (
+                                <div className="space-y-2">
+                                    <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                                        Rappels
+                                    </label>
+                                    <div className="flex gap-2 flex-wrap">
+                                        {[15, 60, 1440].map(minutes => {
+                                            const label = minutes === 15 ? '15 min' : minutes === 60 ? '1 heure' : '1 jour';
+                                            const isSelected = reminders.includes(minutes);
+                                            return (
+                                                <button
+                                                    key={minutes}
+                                                    type="button"
+                                                    onClick={() => {
+                                                        if (isSelected) {
+                                                            setReminders(reminders.filter(m => m !== minutes));
+                                                        } else {
+                                                            setReminders([...reminders, minutes]);
+                                                        }
+                                                    }}
+                                                    className={`px-3 py-1.5 text-xs rounded-lg border transition-colors ${isSelected
+                                                        ? 'bg-blue-500 border-blue-500 text-white'
+                                                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                                                        }`}
+                                                >
+                                                    {label} avant
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Recurrence */}
+                            {startDate && startTime && (
+                                <div className="space-y-2">
+                                    <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                                        Répétition
+                                    </label>
+                                    <select
+                                        value={recurrenceFrequency}
+                                        onChange={(e) => setRecurrenceFrequency(e.target.value as RecurrenceFrequency | '')}
+                                        className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        <option value="">Ne se répète pas</option>
+                                        <option value="daily">Tous les jours</option>
+                                        <option value="weekdays">En semaine (lun - ven)</option>
+                                        <option value="weekly">Chaque semaine</option>
+                                        <option value="monthly">
+                                            {formatRecurrence(getMonthlyRuleFor(new Date(`${startDate}T${startTime}`).getTime()))}
+                                        </option>
+                                        <option value="afterCompletion">X jours après complétion</option>
+                                    </select>
+
+                                    {recurrenceFrequency === 'weekly' && (
+                                        <div className="flex gap-1">
+                                            {weekdayOptions.map(({ day, label }) => {
+                                                const isSelected = recurrenceDays.includes(day);
+                                                return (
+                                                    <button
+                                                        key={day}
+                                                        type="button"
+                                                        onClick={() => setRecurrenceDays(isSelected
+                                                            ? recurrenceDays.filter(d => d !== day)
+                                                            : [...recurrenceDays, day])}
+                                                        className={`w-7 h-7 text-xs rounded-full border transition-colors ${isSelected
+                                                            ? 'bg-blue-500 border-blue-500 text-white'
+                                                            : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                                                            }`}
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+
+                                    {recurrenceFrequency === 'afterCompletion' && (
+                                        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                value={recurrenceInterval}
+                                                onChange={(e) => setRecurrenceInterval(parseInt(e.target.value) || 1)}
+                                                className="w-16 px-2 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                                           bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                            />
+                                            jours après complétion
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Dependencies */}
+                            <div className="space-y-2">
+                                <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                                    Bloquée par (optionnel)
+                                </label>
+                                {blockedBy.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {blockedBy.map(id => {
+                                            const blocker = todos.find(t => t.id === id);
+                                            return (
+                                                <span
+                                                    key={id}
+                                                    className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-800
+                                                               ${blocker?.completed ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}`}
+                                                >
+                                                    {blocker?.title ?? 'Tâche supprimée'}
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => {
+                                                            setBlockedBy(blockedBy.filter(b => b !== id));
+                                                            setFormError('');
+                                                        }}
+                                                        className="text-gray-400 hover:text-red-500"
+                                                        title="Retirer"
+                                                    >
+                                                        ×
+                                                    </button>
+                                                </span>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                                <select
+                                    value=""
+                                    onChange={(e) => {
+                                        if (!e.target.value) return;
+                                        setBlockedBy([...blockedBy, e.target.value]);
+                                        setFormError('');
+                                    }}
+                                    className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 
+                                               bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                               focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="">Ajouter une tâche bloquante...</option>
+                                    {activeTodos
+                                        .filter(t => !t.completed && t.id !== editingTodo?.id && !blockedBy.includes(t.id))
+                                        .map(t => (
+                                            <option key={t.id} value={t.id}>{t.title}</option>
+                                        ))}
+                                </select>
+                            </div>
+
+                            {formError && (
+                                <p className="text-xs text-red-600 dark:text-red-400">{formError}</p>
+                            )}
+
+                            <div className="flex gap-2">
+                                <button
+                                    type="button"
+                                    onClick={resetForm}
+                                    className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600
+                                               text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                                >
+                                    Annuler
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={!title.trim()}
+                                    className="flex-1 px-3 py-2 text-sm font-medium rounded-lg
+                                               bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700
+                                               text-white disabled:text-gray-500 transition-colors"
+                                >
+                                    {editingTodo ? 'Modifier' : 'Ajouter'}
+                                </button>
                             </div>
+                        </form>
+                    ) : (
+                        <div className="flex gap-2 m-3">
+                            <button
+                                onClick={() => setShowForm(true)}
+                                className="flex-1 px-4 py-2.5 text-sm font-medium rounded-lg border-2 border-dashed 
+                                           border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400
+                                           hover:border-blue-400 hover:text-blue-500 dark:hover:border-blue-500 dark:hover:text-blue-400
+                                           transition-colors"
+                            >
+                                + Nouvelle tâche
+                            </button>
+                            <button
+                                onClick={handleCaptureTab}
+                                className="px-3 py-2.5 text-sm font-medium rounded-lg border-2 border-dashed 
+                                           border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400
+                                           hover:border-blue-400 hover:text-blue-500 dark:hover:border-blue-500 dark:hover:text-blue-400
+                                           transition-colors flex items-center gap-1.5"
+                                title="Créer une tâche avec le titre et l'adresse de l'onglet actuel"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                                </svg>
+                                Ajouter l'onglet actuel
+                            </button>
                         </div>
                     )}
 
-                    <div className="flex gap-2">
-                        <button
-                            type="button"
-                            onClick={resetForm}
-                            className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600
-                                       text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
-                        >
-                            Annuler
-                        </button>
-                        <button
-                            type="submit"
-                            disabled={!title.trim()}
-                            className="flex-1 px-3 py-2 text-sm font-medium rounded-lg
-                                       bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700
-                                       text-white disabled:text-gray-500 transition-colors"
-                        >
-                            {editingTodo ? 'Modifier' : 'Ajouter'}
-                        </button>
-                    </div>
-                </form>
-            ) : (
-                <button
-                    onClick={() => setShowForm(true)}
-                    className="m-3 px-4 py-2.5 text-sm font-medium rounded-lg border-2 border-dashed 
-                               border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400
-                               hover:border-blue-400 hover:text-blue-500 dark:hover:border-blue-500 dark:hover:text-blue-400
-                               transition-colors"
-                >
-                    + Nouvelle tâche
-                </button>
-            )}
-
-            {/* Todo list */}
-            <div className="flex-1 overflow-y-auto">
-                {todos.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-32 text-gray-400 dark:text-gray-500">
-                        <svg className="w-12 h-12 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5}
-                                d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                        </svg>
-                        <p className="text-sm">Aucune tâche</p>
-                    </div>
-                ) : (
-                    <div className="divide-y divide-gray-100 dark:divide-gray-800">
-                        {/* Pending todos */}
-                        {pendingTodos.map(todo => (
-                            <TodoItem
-                                key={todo.id}
-                                todo={todo}
-                                category={getCategory(todo.categoryId)}
-                                onToggle={handleToggle}
+                    {/* Todo list or board */}
+                    {layout === 'board' ? (
+                        <div className="flex-1 overflow-hidden">
+                            <BoardView
+                                todos={boardTodos}
+                                allTodos={activeTodos}
+                                columns={boardColumns}
+                                categories={categories}
+                                draggedId={draggedTodo?.id}
                                 onEdit={handleEdit}
-                                onDelete={handleDelete}
-                                draggable={true}
-                                onDragStart={(e) => handleDragStart(e, todo)}
-                                onDragOver={(e) => handleDragOver(e, todo)}
+                                onDragStart={handleDragStart}
+                                onDragOver={handleDragOver}
+                                onColumnDragOver={handleColumnDragOver}
                                 onDrop={handleDrop}
                                 onDragEnd={handleDragEnd}
-                                isDragging={draggedTodo?.id === todo.id}
+                                onColumnsChange={handleColumnsChange}
                             />
-                        ))}
+                        </div>
+                    ) : (
+                        <div className="flex-1 overflow-y-auto">
+                            {pendingTodos.length === 0 && completedTodos.length === 0 ? (
+                                <div className="flex flex-col items-center justify-center h-32 text-gray-400 dark:text-gray-500">
+                                    <svg className="w-12 h-12 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5}
+                                            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                                    </svg>
+                                    <p className="text-sm">Aucune tâche</p>
+                                </div>
+                            ) : (
+                                <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                                    {/* Pending todos */}
+                                    {sortMode === 'category'
+                                        ? categoryGroups.map(group => {
+                                            const isCollapsed = collapsedGroups.includes(group.id);
+                                            return (
+                                                <div key={group.id || 'none'}>
+                                                    <button
+                                                        onClick={() => toggleGroup(group.id)}
+                                                        className="w-full flex items-center gap-2 px-3 py-1.5 text-xs font-medium
+                                                                   text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-800/50
+                                                                   hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                                                    >
+                                                        <svg className={`w-3 h-3 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                                        </svg>
+                                                        <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: group.color }} />
+                                                        {group.name}
+                                                        <span className="text-gray-400 dark:text-gray-500">({group.todos.length})</span>
+                                                    </button>
+                                                    {!isCollapsed && (
+                                                        <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                                                            {group.todos.map(renderPendingTodo)}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            );
+                                        })
+                                        : pendingTodos.map(renderPendingTodo)}
 
-                        {/* Completed section */}
-                        {completedTodos.length > 0 && (
-                            <>
-                                <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50">
-                                    Terminées ({completedTodos.length})
+                                    {/* Completed section */}
+                                    {completedTodos.length > 0 && (
+                                        <>
+                                            <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50">
+                                                Terminées ({completedTodos.length})
+                                            </div>
+                                            {completedTodos.map(todo => (
+                                                <TodoItem
+                                                    key={todo.id}
+                                                    todo={todo}
+                                                    tags={getTodoCategories(todo, categories)}
+                                                    onToggle={handleToggle}
+                                                    onEdit={handleEdit}
+                                                    onDelete={handleDelete}
+                                                    onSubtasksChange={handleSubtasksChange}
+                                                    highlighted={highlightedTodoId === todo.id}
+                                                />
+                                            ))}
+                                        </>
+                                    )}
                                 </div>
-                                {completedTodos.map(todo => (
-                                    <TodoItem
-                                        key={todo.id}
-                                        todo={todo}
-                                        category={getCategory(todo.categoryId)}
-                                        onToggle={handleToggle}
-                                        onEdit={handleEdit}
-                                        onDelete={handleDelete}
-                                    />
-                                ))}
-                            </>
-                        )}
-                    </div>
-                )}
-            </div>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+
+            {/* Undo / redo toast */}
+            {toast && (
+                <div className="absolute bottom-3 left-3 right-3 flex items-center justify-between gap-3 px-3 py-2
+                                rounded-lg shadow-lg bg-gray-900 dark:bg-gray-700 text-white text-xs">
+                    <span className="truncate">{toast.message}</span>
+                    <button
+                        onClick={() => handleHistory(toast.action)}
+                        className="font-semibold text-blue-300 hover:text-blue-200 flex-shrink-0"
+                    >
+                        {toast.action === 'undo' ? 'Annuler' : 'Rétablir'}
+                    </button>
+                </div>
+            )}
         </div>
     );
 }
 
 interface TodoItemProps {
     todo: Todo;
-    category?: Category;
+    tags: Category[];
     onToggle: (id: string) => void;
     onEdit: (todo: Todo) => void;
     onDelete: (id: string) => void;
+    onSubtasksChange: (id: string, subtasks: Subtask[]) => void;
+    timerElapsed?: number; // set while the timer runs on this todo
+    onTimerToggle?: (id: string) => void;
+    onFocusStart?: (id: string) => void;
+    onSnooze?: (id: string, until: number | undefined) => void;
+    blockers?: Todo[];
+    highlighted?: boolean;
     draggable?: boolean;
     onDragStart?: (e: React.DragEvent) => void;
     onDragOver?: (e: React.DragEvent) => void;
@@ -606,10 +1640,17 @@ interface TodoItemProps {
 
 function TodoItem({
     todo,
-    category,
+    tags,
     onToggle,
     onEdit,
     onDelete,
+    onSubtasksChange,
+    timerElapsed,
+    onTimerToggle,
+    onFocusStart,
+    onSnooze,
+    blockers = [],
+    highlighted,
     draggable,
     onDragStart,
     onDragOver,
@@ -617,9 +1658,22 @@ function TodoItem({
     onDragEnd,
     isDragging
 }: TodoItemProps) {
+    const [showSubtasks, setShowSubtasks] = useState(false);
+    const [showSnoozeMenu, setShowSnoozeMenu] = useState(false);
+    const [customSnooze, setCustomSnooze] = useState('');
+    const overdue = isOverdue(todo);
+    const snoozed = isSnoozed(todo);
+    const subtasks = todo.subtasks || [];
+    const completedSubtasks = subtasks.filter(s => s.completed).length;
+    const blocked = !todo.completed && blockers.length > 0;
+
     return (
         <div
+            id={`todo-${todo.id}`}
             className={`px-3 py-2.5 hover:bg-gray-50 dark:hover:bg-gray-800/50 group transition-all duration-200
+                       ${overdue ? 'border-l-2 border-red-500' : ''}
+                       ${blocked ? 'opacity-60' : ''}
+                       ${highlighted ? 'bg-blue-50 dark:bg-blue-900/20 ring-2 ring-inset ring-blue-400' : ''}
                        ${isDragging ? 'opacity-50 scale-[0.98] bg-gray-50 dark:bg-gray-800 border-2 border-dashed border-gray-300 dark:border-gray-600' : ''}`}
             onDragOver={onDragOver}
             onDrop={onDrop}
@@ -656,18 +1710,70 @@ function TodoItem({
                 <div className="flex-1 min-w-0" onClick={() => onEdit(todo)}>
                     <div className="flex justify-between items-start gap-2">
                         <div className="flex items-center gap-2 flex-wrap">
+                            {todo.link && (
+                                <a
+                                    href={todo.link}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    onClick={(e) => e.stopPropagation()}
+                                    className="flex-shrink-0 rounded hover:ring-2 hover:ring-blue-400"
+                                    title={`Ouvrir ${getLinkHost(todo.link)}`}
+                                >
+                                    <img src={getFaviconUrl(todo.link)} alt="" className="w-4 h-4" />
+                                </a>
+                            )}
                             <span className={`text-sm ${todo.completed ? 'line-through text-gray-400 dark:text-gray-500' : ''}`}>
                                 {todo.title}
                             </span>
-                            {category && (
+                            {tags.map(tag => (
                                 <span
+                                    key={tag.id}
                                     className="px-1.5 py-0.5 text-[10px] font-medium rounded-full flex-shrink-0"
                                     style={{
-                                        backgroundColor: `${category.color}20`,
-                                        color: category.color
+                                        backgroundColor: `${tag.color}20`,
+                                        color: tag.color
+                                    }}
+                                >
+                                    {tag.name}
+                                </span>
+                            ))}
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setShowSubtasks(!showSubtasks);
+                                }}
+                                className={`px-1.5 py-0.5 text-[10px] font-medium rounded-full flex items-center gap-1 flex-shrink-0 transition-colors
+                                           ${subtasks.length > 0
+                                        ? completedSubtasks === subtasks.length
+                                            ? 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400'
+                                            : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'
+                                        : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'}`}
+                                title={showSubtasks ? 'Masquer les sous-tâches' : 'Afficher les sous-tâches'}
+                            >
+                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                                </svg>
+                                {subtasks.length > 0 && `${completedSubtasks}/${subtasks.length}`}
+                            </button>
+                            {todo.priority && todo.priority < 4 && (
+                                <span
+                                    className="px-1 py-0.5 text-[10px] font-bold rounded flex-shrink-0"
+                                    style={{
+                                        backgroundColor: `${priorities[todo.priority - 1].color}20`,
+                                        color: priorities[todo.priority - 1].color
                                     }}
                                 >
-                                    {category.name}
+                                    {priorities[todo.priority - 1].label}
+                                </span>
+                            )}
+                            {todo.recurrence && (
+                                <span
+                                    className="text-gray-400 dark:text-gray-500 flex-shrink-0"
+                                    title={formatRecurrence(todo.recurrence)}
+                                >
+                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                    </svg>
                                 </span>
                             )}
                         </div>
@@ -685,8 +1791,150 @@ function TodoItem({
                             {todo.comment}
                         </p>
                     )}
+                    {blocked && (
+                        <p className="flex items-center gap-1 mt-0.5 text-[10px] text-gray-500 dark:text-gray-400">
+                            <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                            </svg>
+                            <span className="truncate">Bloquée par {blockers.map(b => b.title).join(', ')}</span>
+                        </p>
+                    )}
+                    {snoozed && (
+                        <p className="flex items-center gap-1 mt-0.5 text-[10px] text-indigo-500 dark:text-indigo-400">
+                            <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+                            </svg>
+                            Snoozée jusqu'à {formatSnoozeTime(todo.snoozedUntil!)}
+                            {onSnooze && (
+                                <button
+                                    onClick={() => onSnooze(todo.id, undefined)}
+                                    className="ml-1 underline hover:text-indigo-700 dark:hover:text-indigo-300"
+                                >
+                                    Réveiller
+                                </button>
+                            )}
+                        </p>
+                    )}
+                    {todo.dueDate && (
+                        <span className={`inline-flex items-center gap-1 mt-1 px-1.5 py-0.5 text-[10px] font-medium rounded-full
+                                         ${overdue
+                                ? 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+                                : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'}`}>
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                            </svg>
+                            {overdue ? 'En retard · ' : 'Échéance '}
+                            {new Date(todo.dueDate).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit' })}
+                        </span>
+                    )}
+                    {showSubtasks && (
+                        <SubtaskList
+                            subtasks={subtasks}
+                            onChange={(updated) => onSubtasksChange(todo.id, updated)}
+                        />
+                    )}
                 </div>
 
+                {onSnooze && !todo.completed && (
+                    <div className="relative">
+                        <button
+                            onClick={() => setShowSnoozeMenu(!showSnoozeMenu)}
+                            className={`p-1 transition-all ${showSnoozeMenu
+                                ? 'text-indigo-500'
+                                : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-indigo-500'}`}
+                            title="Snoozer"
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+                            </svg>
+                        </button>
+                        {showSnoozeMenu && (
+                            <div className="absolute right-0 top-full z-20 mt-1 w-52 py-1 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                                {snoozePresets.map(preset => {
+                                    const until = getSnoozeTime(preset.id);
+                                    return (
+                                        <button
+                                            key={preset.id}
+                                            onClick={() => {
+                                                setShowSnoozeMenu(false);
+                                                onSnooze(todo.id, until);
+                                            }}
+                                            className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-xs text-left text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                        >
+                                            {preset.label}
+                                            <span className="text-[10px] text-gray-400 dark:text-gray-500">{formatSnoozeTime(until)}</span>
+                                        </button>
+                                    );
+                                })}
+                                <form
+                                    onSubmit={(e) => {
+                                        e.preventDefault();
+                                        const until = new Date(customSnooze).getTime();
+                                        if (!customSnooze || until <= Date.now()) return;
+                                        setShowSnoozeMenu(false);
+                                        setCustomSnooze('');
+                                        onSnooze(todo.id, until);
+                                    }}
+                                    className="flex items-center gap-1 px-3 pt-1.5 pb-1 border-t border-gray-100 dark:border-gray-700"
+                                >
+                                    <input
+                                        type="datetime-local"
+                                        value={customSnooze}
+                                        onChange={(e) => setCustomSnooze(e.target.value)}
+                                        className="flex-1 min-w-0 px-1.5 py-1 text-[10px] rounded border border-gray-300 dark:border-gray-600
+                                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        title="Date personnalisée"
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={!customSnooze}
+                                        className="px-2 py-1 text-[10px] rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                                    >
+                                        OK
+                                    </button>
+                                </form>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {onFocusStart && !todo.completed && (
+                    <button
+                        onClick={() => onFocusStart(todo.id)}
+                        className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-all"
+                        title="Lancer un pomodoro"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <circle cx="12" cy="12" r="9" strokeWidth={2} />
+                            <circle cx="12" cy="12" r="4" strokeWidth={2} />
+                        </svg>
+                    </button>
+                )}
+
+                {onTimerToggle && !todo.completed && (
+                    <button
+                        onClick={() => onTimerToggle(todo.id)}
+                        className={`p-1 flex items-center gap-1 transition-all ${timerElapsed !== undefined
+                            ? 'text-blue-500 hover:text-blue-600'
+                            : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-500'}`}
+                        title={timerElapsed !== undefined ? 'Arrêter le chrono' : 'Démarrer le chrono'}
+                    >
+                        {timerElapsed !== undefined ? (
+                            <>
+                                <span className="text-[10px] font-medium tabular-nums">{formatDuration(timerElapsed)}</span>
+                                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                                    <rect x="6" y="6" width="12" height="12" rx="1" />
+                                </svg>
+                            </>
+                        ) : (
+                            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                                <path d="M8 5v14l11-7z" />
+                            </svg>
+                        )}
+                    </button>
+                )}
+
                 <button
                     onClick={() => onDelete(todo.id)}
                     className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-all"
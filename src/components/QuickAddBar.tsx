@@ -0,0 +1,151 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Category } from '../services/storageService';
+import type { ParsedQuickAdd, QuickAddField, QuickAddRequest } from '../services/quickAddService';
+import { parseQuickAdd } from '../services/quickAddService';
+import { priorities } from '../services/smartListService';
+
+interface QuickAddBarProps {
+    categories: Category[];
+    onAdd: (parsed: ParsedQuickAdd) => Promise<void>;
+    onOpenForm: (parsed: ParsedQuickAdd) => void;
+    request?: QuickAddRequest;
+    onRequestHandled?: () => void;
+}
+
+function formatReminder(minutes: number): string {
+    if (minutes < 60) return `${minutes} min`;
+    if (minutes < 1440) return `${Math.floor(minutes / 60)} h`;
+    return `${Math.floor(minutes / 1440)} j`;
+}
+
+export default function QuickAddBar({ categories, onAdd, onOpenForm, request, onRequestHandled }: QuickAddBarProps) {
+    const [input, setInput] = useState('');
+    const [ignored, setIgnored] = useState<QuickAddField[]>([]);
+    const [appliedRequest, setAppliedRequest] = useState<QuickAddRequest>();
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // Text given with a request (command palette) replaces the input; without any, typed text is kept
+    if (request && request !== appliedRequest) {
+        setAppliedRequest(request);
+        if (request.text) {
+            setInput(request.text);
+            setIgnored([]);
+        }
+    }
+
+    // Take the focus when asked to (keyboard shortcut, command palette)
+    useEffect(() => {
+        if (!request) return;
+        inputRef.current?.focus();
+        onRequestHandled?.();
+    }, [request, onRequestHandled]);
+
+    const parsed = parseQuickAdd(input, categories, ignored);
+    const tags = categories.filter(c => parsed.categoryIds?.includes(c.id));
+
+    const reset = () => {
+        setInput('');
+        setIgnored([]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!parsed.title) return;
+
+        await onAdd(parsed);
+        reset();
+    };
+
+    const ignore = (field: QuickAddField) => {
+        setIgnored([...ignored, field]);
+    };
+
+    const chips: { key: string; field: QuickAddField; label: string; color: string }[] = [];
+    if (parsed.startDate) {
+        chips.push({
+            key: 'startDate',
+            field: 'startDate',
+            label: new Date(parsed.startDate).toLocaleString('fr-FR', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }),
+            color: '#3b82f6'
+        });
+    }
+    for (const tag of tags) {
+        chips.push({ key: tag.id, field: 'category', label: tag.name, color: tag.color });
+    }
+    if (parsed.priority) {
+        const p = priorities[parsed.priority - 1];
+        chips.push({ key: 'priority', field: 'priority', label: p.label, color: p.color });
+    }
+    if (parsed.reminders?.length) {
+        chips.push({
+            key: 'reminders',
+            field: 'reminders',
+            label: `Rappel ${parsed.reminders.map(formatReminder).join(', ')} avant`,
+            color: '#6b7280'
+        });
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="px-3 pt-3 space-y-2">
+            <div className="flex gap-2">
+                <input
+                    ref={inputRef}
+                    type="text"
+                    value={input}
+                    onChange={(e) => {
+                        setInput(e.target.value);
+                        if (!e.target.value) setIgnored([]);
+                    }}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Escape') reset();
+                    }}
+                    placeholder="Ajout rapide : Appeler Marc demain 14h #Travail !urgent"
+                    className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600
+                               bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                               focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {input && (
+                    <button
+                        type="button"
+                        onClick={() => {
+                            onOpenForm(parsed);
+                            reset();
+                        }}
+                        className="px-2 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                   text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                        title="Corriger dans le formulaire complet"
+                    >
+                        Détails
+                    </button>
+                )}
+            </div>
+
+            {input && (
+                <div className="flex flex-wrap items-center gap-1.5">
+                    <span className="text-xs text-gray-700 dark:text-gray-300 truncate max-w-full">
+                        {parsed.title || <span className="italic text-gray-400">Sans titre</span>}
+                    </span>
+                    {chips.map(chip => (
+                        <span
+                            key={chip.key}
+                            className="inline-flex items-center gap-1 pl-1.5 pr-0.5 py-0.5 text-[10px] font-medium rounded-full"
+                            style={{ backgroundColor: `${chip.color}20`, color: chip.color }}
+                        >
+                            {chip.label}
+                            <button
+                                type="button"
+                                onClick={() => ignore(chip.field)}
+                                className="p-0.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10"
+                                title="Garder ce texte dans le titre"
+                            >
+                                <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+        </form>
+    );
+}
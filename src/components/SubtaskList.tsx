@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import type { Subtask } from '../services/storageService';
+
+interface SubtaskListProps {
+    subtasks: Subtask[];
+    onChange: (subtasks: Subtask[]) => void;
+}
+
+export default function SubtaskList({ subtasks, onChange }: SubtaskListProps) {
+    const [draggedSubtask, setDraggedSubtask] = useState<Subtask | null>(null);
+    const [dragOrder, setDragOrder] = useState<Subtask[] | null>(null);
+    const [newTitle, setNewTitle] = useState('');
+
+    // While dragging, the reordered list is kept locally and only saved on drop
+    const items = dragOrder ?? subtasks;
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newTitle.trim()) return;
+
+        onChange([...items, { id: crypto.randomUUID(), title: newTitle.trim(), completed: false }]);
+        setNewTitle('');
+    };
+
+    const handleToggle = (id: string) => {
+        onChange(items.map(s => s.id === id ? { ...s, completed: !s.completed } : s));
+    };
+
+    const handleDelete = (id: string) => {
+        onChange(items.filter(s => s.id !== id));
+    };
+
+    // Drag and Drop Handlers (same behaviour as the todo list)
+    const handleDragStart = (e: React.DragEvent, subtask: Subtask) => {
+        e.stopPropagation();
+        setDraggedSubtask(subtask);
+        setDragOrder(subtasks);
+        e.dataTransfer.effectAllowed = 'move';
+        // Transparent image to avoid default ghost
+        const img = new Image();
+        img.src = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
+        e.dataTransfer.setDragImage(img, 0, 0);
+    };
+
+    const handleDragOver = (e: React.DragEvent, target: Subtask) => {
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+
+        if (!draggedSubtask || draggedSubtask.id === target.id) return;
+
+        const sourceIndex = items.findIndex(s => s.id === draggedSubtask.id);
+        const targetIndex = items.findIndex(s => s.id === target.id);
+
+        if (sourceIndex !== -1 && targetIndex !== -1 && sourceIndex !== targetIndex) {
+            const newItems = [...items];
+            const [movedItem] = newItems.splice(sourceIndex, 1);
+            newItems.splice(targetIndex, 0, movedItem);
+            setDragOrder(newItems);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (draggedSubtask) {
+            onChange(items);
+            setDraggedSubtask(null);
+            setDragOrder(null);
+        }
+    };
+
+    const handleDragEnd = () => {
+        setDraggedSubtask(null);
+        setDragOrder(null);
+    };
+
+    return (
+        <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+            {items.map(subtask => (
+                <div
+                    key={subtask.id}
+                    className={`flex items-center gap-2 group/subtask rounded transition-all duration-200
+                               ${draggedSubtask?.id === subtask.id ? 'opacity-50 bg-gray-50 dark:bg-gray-800' : ''}`}
+                    onDragOver={(e) => handleDragOver(e, subtask)}
+                    onDrop={handleDrop}
+                >
+                    <div
+                        className="text-gray-300 dark:text-gray-600 hover:text-gray-500 dark:hover:text-gray-400 cursor-grab active:cursor-grabbing flex-shrink-0"
+                        draggable
+                        onDragStart={(e) => handleDragStart(e, subtask)}
+                        onDragEnd={handleDragEnd}
+                    >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16" />
+                        </svg>
+                    </div>
+                    <input
+                        type="checkbox"
+                        checked={subtask.completed}
+                        onChange={() => handleToggle(subtask.id)}
+                        className="w-3.5 h-3.5 rounded accent-blue-500 cursor-pointer flex-shrink-0"
+                    />
+                    <span className={`flex-1 text-xs ${subtask.completed ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}`}>
+                        {subtask.title}
+                    </span>
+                    <button
+                        onClick={() => handleDelete(subtask.id)}
+                        className="opacity-0 group-hover/subtask:opacity-100 p-0.5 text-gray-400 hover:text-red-500 transition-all"
+                        title="Supprimer"
+                    >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+            ))}
+
+            <form onSubmit={handleAdd} className="flex items-center gap-2 pl-5">
+                <input
+                    type="text"
+                    value={newTitle}
+                    onChange={(e) => setNewTitle(e.target.value)}
+                    placeholder="Ajouter une sous-tâche..."
+                    className="flex-1 px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-700
+                               bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                               focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+            </form>
+        </div>
+    );
+}
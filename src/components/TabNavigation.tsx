@@ -5,6 +5,7 @@ interface TabNavigationProps {
 
 const tabs = [
     { id: 'perso', label: 'Perso', icon: 'user' },
+    { id: 'agenda', label: 'Agenda', icon: 'calendar' },
     { id: 'github', label: 'GitHub', icon: 'github' },
     { id: 'gmail', label: 'Gmail', icon: 'mail' }
 ];
@@ -39,6 +40,12 @@ function TabIcon({ icon, active }: { icon: string; active: boolean }) {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                 </svg>
             );
+        case 'calendar':
+            return (
+                <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+            );
         case 'github':
             return (
                 <svg className={className} fill="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+import type { Todo, Category, ActiveTimer, TimeEntry, FocusSession, FocusSettings, Pomodoro } from '../services/storageService';
+import { getTimeEntries, getArchivedTodos, getPomodoros, getFocusSettings, saveFocusSettings } from '../services/storageService';
+import type { ReportRange } from '../services/timeTrackingService';
+import { reportRanges, getReportBounds, buildTimeReport, formatDuration } from '../services/timeTrackingService';
+import { countPomodoros } from '../services/focusService';
+
+interface TimeReportViewProps {
+    todos: Todo[];
+    categories: Category[];
+    activeTimer: ActiveTimer | null;
+    focusSession: FocusSession | null;
+}
+
+// Format a timestamp as the local YYYY-MM-DD value of a date input
+const toDateInputValue = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const fromDateInputValue = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day).getTime();
+};
+
+export default function TimeReportView({ todos, categories, activeTimer, focusSession }: TimeReportViewProps) {
+    const [entries, setEntries] = useState<TimeEntry[]>([]);
+    const [pomodoros, setPomodoros] = useState<Pomodoro[]>([]);
+    const [focusSettings, setFocusSettings] = useState<FocusSettings>({ workMinutes: 25, breakMinutes: 5 });
+    const [archivedTodos, setArchivedTodos] = useState<Todo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [range, setRange] = useState<ReportRange>('week');
+    const [now] = useState(() => Date.now());
+    const [customFrom, setCustomFrom] = useState(() => toDateInputValue(getReportBounds('week', now)[0]));
+    const [customTo, setCustomTo] = useState(() => toDateInputValue(now));
+
+    // Stopping a timer or finishing a pomodoro adds an entry: reload when either changes
+    useEffect(() => {
+        loadEntries();
+    }, [activeTimer, focusSession?.completedPomodoros]);
+
+    const loadEntries = async () => {
+        try {
+            const [loadedEntries, loadedArchived, loadedPomodoros, loadedSettings] = await Promise.all([
+                getTimeEntries(),
+                getArchivedTodos(),
+                getPomodoros(),
+                getFocusSettings()
+            ]);
+            setEntries(loadedEntries);
+            setArchivedTodos(loadedArchived);
+            setPomodoros(loadedPomodoros);
+            setFocusSettings(loadedSettings);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleFocusSettingsChange = async (updates: Partial<FocusSettings>) => {
+        const next = { ...focusSettings, ...updates };
+        setFocusSettings(next);
+        await saveFocusSettings(next);
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-6 w-6 border-2 border-blue-500 border-t-transparent"></div>
+            </div>
+        );
+    }
+
+    const [from, to] = range === 'custom'
+        ? [fromDateInputValue(customFrom), fromDateInputValue(customTo) + 24 * 60 * 60 * 1000]
+        : getReportBounds(range, now);
+    const allTodos = [...todos, ...archivedTodos];
+    const report = buildTimeReport(entries, activeTimer, allTodos, categories, from, to, now);
+    const longest = Math.max(...report.byCategory.map(c => c.duration), 1);
+    const pomodoroCounts = [...countPomodoros(pomodoros, from, to).entries()]
+        .map(([todoId, count]) => ({ todoId, count, title: allTodos.find(t => t.id === todoId)?.title ?? 'Tâche supprimée' }))
+        .sort((a, b) => b.count - a.count);
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="px-3 py-2 space-y-2 border-b border-gray-200 dark:border-gray-700">
+                <div className="flex flex-wrap gap-1">
+                    {reportRanges.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setRange(option.id)}
+                            className={`px-2 py-1 text-xs rounded-lg transition-colors ${range === option.id
+                                ? 'bg-blue-500 text-white'
+                                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                {range === 'custom' && (
+                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        Du
+                        <input
+                            type="date"
+                            value={customFrom}
+                            max={customTo}
+                            onChange={(e) => e.target.value && setCustomFrom(e.target.value)}
+                            className="px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                       focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        au
+                        <input
+                            type="date"
+                            value={customTo}
+                            min={customFrom}
+                            onChange={(e) => e.target.value && setCustomTo(e.target.value)}
+                            className="px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                       focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Total : <span className="font-semibold text-gray-700 dark:text-gray-200">{formatDuration(report.total)}</span>
+                </p>
+                <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    Pomodoro :
+                    <input
+                        type="number"
+                        min={5}
+                        max={120}
+                        value={focusSettings.workMinutes}
+                        onChange={(e) => handleFocusSettingsChange({ workMinutes: Math.max(1, parseInt(e.target.value) || 25) })}
+                        className="w-12 px-1.5 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    min de travail,
+                    <input
+                        type="number"
+                        min={1}
+                        max={60}
+                        value={focusSettings.breakMinutes}
+                        onChange={(e) => handleFocusSettingsChange({ breakMinutes: Math.max(1, parseInt(e.target.value) || 5) })}
+                        className="w-12 px-1.5 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    min de pause
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                {report.total === 0 && pomodoroCounts.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center h-32 text-gray-400 dark:text-gray-500">
+                        <svg className="w-12 h-12 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                        <p className="text-sm">Aucun temps enregistré sur cette période</p>
+                    </div>
+                ) : (
+                    <>
+                        {report.total > 0 && (
+                            <>
+                            <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50">
+                                Par label
+                            </div>
+                            <div className="px-3 py-2 space-y-2">
+                                {report.byCategory.map(total => (
+                                    <div key={total.categoryId}>
+                                        <div className="flex items-center justify-between text-xs">
+                                            <span className="flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+                                                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: total.color }} />
+                                                {total.name}
+                                            </span>
+                                            <span className="text-gray-500 dark:text-gray-400 tabular-nums">{formatDuration(total.duration)}</span>
+                                        </div>
+                                        <div className="h-1.5 mt-1 rounded-full bg-gray-100 dark:bg-gray-800">
+                                            <div
+                                                className="h-full rounded-full"
+                                                style={{ width: `${(total.duration / longest) * 100}%`, backgroundColor: total.color }}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50">
+                                Par jour
+                            </div>
+                            <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                                {report.byDay.map(total => (
+                                    <div key={total.day} className="flex items-center justify-between px-3 py-2 text-xs">
+                                        <span className="text-gray-700 dark:text-gray-300 first-letter:uppercase">
+                                            {new Date(total.day).toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long' })}
+                                        </span>
+                                        <span className="text-gray-500 dark:text-gray-400 tabular-nums">{formatDuration(total.duration)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            </>
+                        )}
+
+                        {pomodoroCounts.length > 0 && (
+                            <>
+                                <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50">
+                                    Pomodoros
+                                </div>
+                                <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                                    {pomodoroCounts.map(item => (
+                                        <div key={item.todoId} className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+                                            <span className="text-gray-700 dark:text-gray-300 truncate">{item.title}</span>
+                                            <span className="text-gray-500 dark:text-gray-400 tabular-nums flex-shrink-0">
+                                                {item.count} pomodoro{item.count > 1 ? 's' : ''}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import type { TodoList } from '../services/storageService';
+import { INBOX_LIST_ID } from '../services/storageService';
+
+interface TodoListSwitcherProps {
+    lists: TodoList[];
+    activeListId: string;
+    pendingCounts: Record<string, number>;
+    onSelect: (id: string) => void;
+    onAdd: (name: string) => void;
+    onRename: (id: string, name: string) => void;
+    onToggleArchive: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+export default function TodoListSwitcher({
+    lists,
+    activeListId,
+    pendingCounts,
+    onSelect,
+    onAdd,
+    onRename,
+    onToggleArchive,
+    onDelete
+}: TodoListSwitcherProps) {
+    const [showManager, setShowManager] = useState(false);
+    const [showArchived, setShowArchived] = useState(false);
+    const [editingList, setEditingList] = useState<TodoList | null>(null);
+    const [listName, setListName] = useState('');
+
+    const activeLists = lists.filter(l => !l.archived);
+    const archivedLists = lists.filter(l => l.archived);
+
+    const resetForm = () => {
+        setEditingList(null);
+        setListName('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!listName.trim()) return;
+
+        if (editingList) {
+            onRename(editingList.id, listName.trim());
+        } else {
+            onAdd(listName.trim());
+        }
+        resetForm();
+    };
+
+    const handleEdit = (list: TodoList) => {
+        setEditingList(list);
+        setListName(list.name);
+    };
+
+    const handleDelete = (list: TodoList) => {
+        if (confirm(`Supprimer la liste "${list.name}" ? Ses tâches seront déplacées dans Inbox.`)) {
+            onDelete(list.id);
+        }
+    };
+
+    const renderListRow = (list: TodoList) => (
+        <div
+            key={list.id}
+            className="flex items-center justify-between p-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+        >
+            <span className={`text-xs font-medium ${list.archived ? 'text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}`}>
+                {list.name}
+                <span className="ml-1 text-gray-400 dark:text-gray-500">({pendingCounts[list.id] || 0})</span>
+            </span>
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={() => handleEdit(list)}
+                    className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                    title="Renommer"
+                >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                </button>
+                {list.id !== INBOX_LIST_ID && (
+                    <>
+                        <button
+                            onClick={() => onToggleArchive(list.id)}
+                            className="p-1 text-gray-400 hover:text-amber-500 transition-colors"
+                            title={list.archived ? 'Désarchiver' : 'Archiver'}
+                        >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                            </svg>
+                        </button>
+                        <button
+                            onClick={() => handleDelete(list)}
+                            className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                            title="Supprimer"
+                        >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2 px-3 py-2">
+                <select
+                    value={activeListId}
+                    onChange={(e) => onSelect(e.target.value)}
+                    className="flex-1 px-2 py-1 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600
+                               bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300
+                               focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {activeLists.map(list => (
+                        <option key={list.id} value={list.id}>
+                            {list.name} ({pendingCounts[list.id] || 0})
+                        </option>
+                    ))}
+                    {archivedLists.length > 0 && (
+                        <optgroup label="Archivées">
+                            {archivedLists.map(list => (
+                                <option key={list.id} value={list.id}>{list.name}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+                <button
+                    onClick={() => setShowManager(!showManager)}
+                    className="p-1.5 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                    title="Gérer les listes"
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+                    </svg>
+                </button>
+            </div>
+
+            {/* List Manager */}
+            {showManager && (
+                <div className="p-3 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 space-y-2">
+                    <form onSubmit={handleSubmit} className="flex gap-2">
+                        <input
+                            type="text"
+                            value={listName}
+                            onChange={(e) => setListName(e.target.value)}
+                            placeholder={editingList ? 'Nouveau nom...' : 'Nouvelle liste...'}
+                            className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600
+                                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                       focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!listName.trim()}
+                            className="px-3 py-1.5 text-xs font-medium rounded-lg
+                                       bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700
+                                       text-white disabled:text-gray-500 transition-colors"
+                        >
+                            {editingList ? 'Renommer' : 'Créer'}
+                        </button>
+                        {editingList && (
+                            <button
+                                type="button"
+                                onClick={resetForm}
+                                className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                           text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            >
+                                Annuler
+                            </button>
+                        )}
+                    </form>
+
+                    <div className="space-y-1">
+                        {activeLists.map(renderListRow)}
+                    </div>
+
+                    {archivedLists.length > 0 && (
+                        <>
+                            <button
+                                onClick={() => setShowArchived(!showArchived)}
+                                className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                            >
+                                {showArchived ? 'Masquer' : 'Afficher'} les listes archivées ({archivedLists.length})
+                            </button>
+                            {showArchived && (
+                                <div className="space-y-1">
+                                    {archivedLists.map(renderListRow)}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,139 @@
+import type { Todo, Category } from '../services/storageService';
+
+interface TrashViewProps {
+    todos: Todo[];
+    categories: Category[];
+    retentionDays: number;
+    onRestoreTodo: (id: string) => void;
+    onRestoreCategory: (id: string) => void;
+    onEmpty: () => void;
+    onRetentionChange: (days: number) => void;
+}
+
+const retentionOptions = [7, 30, 90];
+
+function formatDeletedAt(timestamp?: number): string {
+    if (!timestamp) return '';
+    return new Date(timestamp).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+export default function TrashView({
+    todos,
+    categories,
+    retentionDays,
+    onRestoreTodo,
+    onRestoreCategory,
+    onEmpty,
+    onRetentionChange
+}: TrashViewProps) {
+    const deletedTodos = todos.filter(t => t.deletedAt).sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+    const deletedCategories = categories.filter(c => c.deletedAt);
+    const isEmpty = deletedTodos.length === 0 && deletedCategories.length === 0;
+
+    const handleEmpty = () => {
+        if (confirm('Vider la corbeille ? Les éléments seront définitivement supprimés.')) {
+            onEmpty();
+        }
+    };
+
+    const restoreButton = (onClick: () => void) => (
+        <button
+            onClick={onClick}
+            className="px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                       text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 flex-shrink-0"
+        >
+            Restaurer
+        </button>
+    );
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    Suppression auto après
+                    <select
+                        value={retentionDays}
+                        onChange={(e) => onRetentionChange(parseInt(e.target.value))}
+                        className="px-1.5 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600
+                                   bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300
+                                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {retentionOptions.map(days => (
+                            <option key={days} value={days}>{days} jours</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={handleEmpty}
+                    disabled={isEmpty}
+                    className="px-2 py-1 text-xs font-medium rounded-lg text-red-600 dark:text-red-400
+                               hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                    Vider la corbeille
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                {isEmpty ? (
+                    <div className="flex flex-col items-center justify-center h-32 text-gray-400 dark:text-gray-500">
+                        <svg className="w-12 h-12 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                        <p className="text-sm">Corbeille vide</p>
+                    </div>
+                ) : (
+                    <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                        {deletedCategories.length > 0 && (
+                            <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50">
+                                Labels ({deletedCategories.length})
+                            </div>
+                        )}
+                        {deletedCategories.map(cat => (
+                            <div key={cat.id} className="flex items-center justify-between gap-2 px-3 py-2.5">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: cat.color }} />
+                                    <span className="text-sm truncate">{cat.name}</span>
+                                    <span className="text-[10px] text-gray-400 dark:text-gray-500">{formatDeletedAt(cat.deletedAt)}</span>
+                                </div>
+                                {restoreButton(() => onRestoreCategory(cat.id))}
+                            </div>
+                        ))}
+
+                        {deletedTodos.length > 0 && (
+                            <div className="px-3 py-2 text-xs font-medium text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/50">
+                                Tâches ({deletedTodos.length})
+                            </div>
+                        )}
+                        {deletedTodos.map(todo => {
+                            const tags = categories.filter(c => todo.categoryIds?.includes(c.id));
+                            return (
+                                <div key={todo.id} className="flex items-center justify-between gap-2 px-3 py-2.5">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <span className={`text-sm truncate ${todo.completed ? 'line-through text-gray-400 dark:text-gray-500' : ''}`}>
+                                                {todo.title}
+                                            </span>
+                                            {tags.map(tag => (
+                                                <span
+                                                    key={tag.id}
+                                                    className="px-1.5 py-0.5 text-[10px] font-medium rounded-full flex-shrink-0"
+                                                    style={{ backgroundColor: `${tag.color}20`, color: tag.color }}
+                                                >
+                                                    {tag.name}
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <span className="text-[10px] text-gray-400 dark:text-gray-500">
+                                            Supprimée le {formatDeletedAt(todo.deletedAt)}
+                                        </span>
+                                    </div>
+                                    {restoreButton(() => onRestoreTodo(todo.id))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
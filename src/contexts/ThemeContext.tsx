@@ -1,4 +1,5 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import type { Theme } from '../services/storageService';
 import { getTheme, saveTheme } from '../services/storageService';
 
 interface ThemeContextType {
@@ -8,29 +9,41 @@ interface ThemeContextType {
 
 const ThemeContext = createContext<ThemeContextType | null>(null);
 
+const applyTheme = (dark: boolean) => {
+    if (dark) {
+        document.documentElement.classList.add('dark');
+        document.body.style.backgroundColor = '#111827';
+        document.body.style.color = '#f3f4f6';
+    } else {
+        document.documentElement.classList.remove('dark');
+        document.body.style.backgroundColor = '#f9fafb';
+        document.body.style.color = '#111827';
+    }
+};
+
 export function ThemeProvider({ children }: { children: ReactNode }) {
     const [isDark, setIsDark] = useState(false);
 
-    // Load saved theme on mount
+    // Load saved theme on mount, then follow it when it changes elsewhere (e.g. a restored backup)
     useEffect(() => {
-        getTheme().then(savedTheme => {
+        const applySavedTheme = (savedTheme?: Theme) => {
             const dark = savedTheme === 'dark';
             setIsDark(dark);
             applyTheme(dark);
-        });
-    }, []);
+        };
 
-    const applyTheme = (dark: boolean) => {
-        if (dark) {
-            document.documentElement.classList.add('dark');
-            document.body.style.backgroundColor = '#111827';
-            document.body.style.color = '#f3f4f6';
-        } else {
-            document.documentElement.classList.remove('dark');
-            document.body.style.backgroundColor = '#f9fafb';
-            document.body.style.color = '#111827';
-        }
-    };
+        getTheme().then(applySavedTheme);
+        if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return;
+
+        const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+            if (areaName === 'local' && 'theme' in changes) {
+                applySavedTheme(changes.theme.newValue as Theme | undefined);
+            }
+        };
+
+        chrome.storage.onChanged.addListener(handleChange);
+        return () => chrome.storage.onChanged.removeListener(handleChange);
+    }, []);
 
     const toggleTheme = async () => {
         const newIsDark = !isDark;
@@ -0,0 +1,141 @@
+// Service for laying out todos and GitHub project dates on week and month agendas
+
+import type { Todo } from './storageService';
+import type { GitHubIssue } from './githubService';
+import { startOfDay } from './smartListService';
+
+export type AgendaMode = 'week' | 'month';
+
+export interface AgendaRange {
+    issue: GitHubIssue;
+    start: number; // first day (start of day)
+    end: number; // last day (start of day)
+}
+
+// A range clipped to a row of days, with the lane it is drawn in
+export interface AgendaRangeSlot {
+    range: AgendaRange;
+    firstColumn: number;
+    lastColumn: number;
+    lane: number;
+}
+
+export const agendaModes: { id: AgendaMode; label: string }[] = [
+    { id: 'week', label: 'Semaine' },
+    { id: 'month', label: 'Mois' }
+];
+
+function addDays(timestamp: number, days: number): number {
+    const date = new Date(timestamp);
+    date.setDate(date.getDate() + days);
+    return date.getTime();
+}
+
+// Monday of the week containing the timestamp
+export function startOfWeek(timestamp: number): number {
+    const date = new Date(startOfDay(timestamp));
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return date.getTime();
+}
+
+// The 7 days of the week containing the timestamp
+export function getWeekDays(timestamp: number): number[] {
+    const monday = startOfWeek(timestamp);
+    return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+}
+
+// Full weeks covering the month containing the timestamp
+export function getMonthWeeks(timestamp: number): number[][] {
+    const date = new Date(timestamp);
+    const first = new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+    const last = new Date(date.getFullYear(), date.getMonth() + 1, 0).getTime();
+
+    const weeks: number[][] = [];
+    for (let monday = startOfWeek(first); monday <= last; monday = addDays(monday, 7)) {
+        weeks.push(getWeekDays(monday));
+    }
+    return weeks;
+}
+
+// Move the anchor date by one week or one month
+export function shiftAnchor(timestamp: number, mode: AgendaMode, direction: 1 | -1): number {
+    const date = new Date(timestamp);
+    if (mode === 'week') {
+        date.setDate(date.getDate() + 7 * direction);
+    } else {
+        date.setMonth(date.getMonth() + direction, 1);
+    }
+    return date.getTime();
+}
+
+// Scheduled todos starting on a given day
+export function getTodosOnDay(todos: Todo[], day: number): Todo[] {
+    const next = addDays(day, 1);
+    return todos
+        .filter(t => !t.deletedAt && t.startDate !== undefined && t.startDate >= day && t.startDate < next)
+        .sort((a, b) => (a.startDate ?? 0) - (b.startDate ?? 0));
+}
+
+// Todos scheduled at midnight are shown as all-day items
+export function isAllDayTodo(todo: Todo): boolean {
+    if (todo.startDate === undefined) return false;
+    const date = new Date(todo.startDate);
+    return date.getHours() === 0 && date.getMinutes() === 0;
+}
+
+// GitHub project dates are plain YYYY-MM-DD values
+function parseProjectDate(value?: string): number | undefined {
+    const match = value ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+    return match ? new Date(+match[1], +match[2] - 1, +match[3]).getTime() : undefined;
+}
+
+// Issues with a start or end date, as day ranges (a single date gives a one-day range)
+export function getIssueRanges(issues: GitHubIssue[]): AgendaRange[] {
+    const ranges: AgendaRange[] = [];
+    for (const issue of issues) {
+        const start = parseProjectDate(issue.startDate) ?? parseProjectDate(issue.endDate);
+        const end = parseProjectDate(issue.endDate) ?? start;
+        if (start === undefined || end === undefined) continue;
+        ranges.push({ issue, start: Math.min(start, end), end: Math.max(start, end) });
+    }
+    return ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+// Clip ranges to a row of days and stack overlapping ones in lanes
+export function layoutRanges(ranges: AgendaRange[], days: number[]): AgendaRangeSlot[] {
+    const first = days[0];
+    const last = days[days.length - 1];
+    const laneEnds: number[] = [];
+    const slots: AgendaRangeSlot[] = [];
+
+    for (const range of ranges) {
+        if (range.end < first || range.start > last) continue;
+
+        const firstColumn = Math.max(0, days.findIndex(d => d >= range.start));
+        const lastIndex = days.findIndex(d => d > range.end);
+        const lastColumn = lastIndex === -1 ? days.length - 1 : lastIndex - 1;
+
+        let lane = laneEnds.findIndex(end => end < firstColumn);
+        if (lane === -1) {
+            lane = laneEnds.length;
+            laneEnds.push(lastColumn);
+        } else {
+            laneEnds[lane] = lastColumn;
+        }
+        slots.push({ range, firstColumn, lastColumn, lane });
+    }
+
+    return slots;
+}
+
+// New start date when a todo is dropped on a day (and optionally an hour), keeping its minutes otherwise
+export function getDropDate(todo: Todo, day: number, hour?: number): number {
+    const date = new Date(day);
+    if (hour !== undefined) {
+        date.setHours(hour, 0, 0, 0);
+    } else if (todo.startDate !== undefined) {
+        const previous = new Date(todo.startDate);
+        date.setHours(previous.getHours(), previous.getMinutes(), 0, 0);
+    }
+    return date.getTime();
+}
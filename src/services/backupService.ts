@@ -0,0 +1,256 @@
+// Service for full JSON backup and restore of the extension data
+
+import type { Todo, TodoList, Category, BoardColumn, GitHubSettings, Theme, TimeEntry, ActiveTimer, Pomodoro, FocusSettings } from './storageService';
+import {
+    getTodos, saveTodos, getTodoLists, saveTodoLists, getCategories, saveCategories,
+    getArchivedTodos, saveArchivedTodos, getTheme, saveTheme, getGitHubSettings, saveGitHubSettings,
+    getTrashRetentionDays, saveTrashRetentionDays, getArchiveAfterDays, saveArchiveAfterDays, getBoardColumns, saveBoardColumns,
+    getTimeEntries, saveTimeEntries, getActiveTimer, saveActiveTimer, getPomodoros, savePomodoros, getFocusSettings, saveFocusSettings
+} from './storageService';
+import { rebuildReminders } from './reminderService';
+
+export const BACKUP_VERSION = 1;
+const BACKUP_APP = 'todo-manager';
+
+export interface BackupData {
+    todos: Todo[];
+    todoLists: TodoList[];
+    categories: Category[];
+    archivedTodos: Todo[];
+    boardColumns: BoardColumn[];
+    theme: Theme;
+    githubSettings: GitHubSettings;
+    trashRetentionDays: number;
+    archiveAfterDays: number;
+    timeEntries: TimeEntry[];
+    activeTimer: ActiveTimer | null;
+    pomodoros: Pomodoro[];
+    focusSettings: FocusSettings;
+}
+
+export interface BackupFile {
+    app: typeof BACKUP_APP;
+    version: number;
+    exportedAt: number;
+    includesGitHubToken: boolean;
+    data: BackupData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface CollectionDiff {
+    added: number; // ids missing locally
+    changed: number; // same id, different content
+    conflicting: number; // different id but same title/name as a local item
+    removed: number; // local items missing from the backup (dropped in replace mode)
+}
+
+export interface BackupDiff {
+    todos: CollectionDiff;
+    todoLists: CollectionDiff;
+    categories: CollectionDiff;
+    archivedTodos: CollectionDiff;
+}
+
+async function readLocalData(): Promise<BackupData> {
+    const [
+        todos, todoLists, categories, archivedTodos, boardColumns, theme, githubSettings, trashRetentionDays, archiveAfterDays,
+        timeEntries, activeTimer, pomodoros, focusSettings
+    ] = await Promise.all([
+        getTodos(),
+        getTodoLists(),
+        getCategories(),
+        getArchivedTodos(),
+        getBoardColumns(),
+        getTheme(),
+        getGitHubSettings(),
+        getTrashRetentionDays(),
+        getArchiveAfterDays(),
+        getTimeEntries(),
+        getActiveTimer(),
+        getPomodoros(),
+        getFocusSettings()
+    ]);
+    return {
+        todos, todoLists, categories, archivedTodos, boardColumns, theme, githubSettings, trashRetentionDays, archiveAfterDays,
+        timeEntries, activeTimer, pomodoros, focusSettings
+    };
+}
+
+// Build a backup of everything in storage; the GitHub token is only included on request
+export async function createBackup(includeGitHubToken: boolean): Promise<BackupFile> {
+    const data = await readLocalData();
+    if (!includeGitHubToken) {
+        data.githubSettings = { ...data.githubSettings, token: '' };
+    }
+
+    return {
+        app: BACKUP_APP,
+        version: BACKUP_VERSION,
+        exportedAt: Date.now(),
+        includesGitHubToken: includeGitHubToken && !!data.githubSettings.token,
+        data
+    };
+}
+
+// Save a backup as a JSON file
+export function downloadBackup(backup: BackupFile) {
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `todo-manager-backup-${date}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assertArrayOf(value: unknown, name: string, isValid: (item: Record<string, unknown>) => boolean) {
+    if (!Array.isArray(value) || !value.every(item => isObject(item) && isValid(item))) {
+        throw new Error(`Sauvegarde invalide : "${name}" est mal formé`);
+    }
+}
+
+const isTodo = (t: Record<string, unknown>) =>
+    typeof t.id === 'string' && typeof t.title === 'string' && typeof t.completed === 'boolean' && typeof t.createdAt === 'number';
+
+// Parse and validate a backup file
+export function parseBackup(text: string): BackupFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Fichier JSON illisible');
+    }
+
+    if (!isObject(parsed) || parsed.app !== BACKUP_APP || !isObject(parsed.data)) {
+        throw new Error("Ce fichier n'est pas une sauvegarde Todo Manager");
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+        throw new Error(`Version de sauvegarde non supportée : ${String(parsed.version)}`);
+    }
+
+    const data = parsed.data;
+    assertArrayOf(data.todos, 'todos', isTodo);
+    assertArrayOf(data.archivedTodos ?? [], 'archivedTodos', isTodo);
+    assertArrayOf(data.todoLists ?? [], 'todoLists', l => typeof l.id === 'string' && typeof l.name === 'string');
+    assertArrayOf(data.boardColumns ?? [], 'boardColumns', c => typeof c.id === 'string' && typeof c.name === 'string');
+    assertArrayOf(data.categories, 'categories', c => typeof c.id === 'string' && typeof c.name === 'string' && typeof c.color === 'string');
+    assertArrayOf(data.timeEntries ?? [], 'timeEntries', e =>
+        typeof e.id === 'string' && typeof e.todoId === 'string'
+        && typeof e.start === 'number' && typeof e.end === 'number' && typeof e.duration === 'number');
+    assertArrayOf(data.pomodoros ?? [], 'pomodoros', p =>
+        typeof p.id === 'string' && typeof p.todoId === 'string' && typeof p.start === 'number' && typeof p.end === 'number');
+
+    if (data.theme !== undefined && !['light', 'dark', 'system'].includes(data.theme as string)) {
+        throw new Error('Sauvegarde invalide : thème inconnu');
+    }
+    if (data.githubSettings !== undefined && !isObject(data.githubSettings)) {
+        throw new Error('Sauvegarde invalide : "githubSettings" est mal formé');
+    }
+    if (data.activeTimer != null && !(isObject(data.activeTimer)
+        && typeof data.activeTimer.todoId === 'string' && typeof data.activeTimer.start === 'number')) {
+        throw new Error('Sauvegarde invalide : "activeTimer" est mal formé');
+    }
+    if (data.focusSettings !== undefined && !(isObject(data.focusSettings)
+        && typeof data.focusSettings.workMinutes === 'number' && typeof data.focusSettings.breakMinutes === 'number')) {
+        throw new Error('Sauvegarde invalide : "focusSettings" est mal formé');
+    }
+
+    return parsed as unknown as BackupFile;
+}
+
+function diffCollection<T extends { id: string }>(local: T[], incoming: T[], label: (item: T) => string): CollectionDiff {
+    const diff: CollectionDiff = { added: 0, changed: 0, conflicting: 0, removed: 0 };
+    const localById = new Map(local.map(item => [item.id, item]));
+    const incomingIds = new Set(incoming.map(item => item.id));
+
+    for (const item of incoming) {
+        const existing = localById.get(item.id);
+        if (!existing) {
+            if (local.some(l => label(l).toLowerCase() === label(item).toLowerCase())) {
+                diff.conflicting++;
+            } else {
+                diff.added++;
+            }
+        } else if (JSON.stringify(existing) !== JSON.stringify(item)) {
+            diff.changed++;
+        }
+    }
+    diff.removed = local.filter(item => !incomingIds.has(item.id)).length;
+
+    return diff;
+}
+
+// Compare a backup with the current storage
+export async function computeBackupDiff(backup: BackupFile): Promise<BackupDiff> {
+    const local = await readLocalData();
+    const data = backup.data;
+
+    return {
+        todos: diffCollection(local.todos, data.todos, t => t.title),
+        todoLists: diffCollection(local.todoLists, data.todoLists ?? [], l => l.name),
+        categories: diffCollection(local.categories, data.categories, c => c.name),
+        archivedTodos: diffCollection(local.archivedTodos, data.archivedTodos ?? [], t => t.title)
+    };
+}
+
+// Union by id, backup items winning over local ones
+function mergeById<T extends { id: string }>(local: T[], incoming: T[]): T[] {
+    const incomingById = new Map(incoming.map(item => [item.id, item]));
+    const merged = local.map(item => incomingById.get(item.id) ?? item);
+    const localIds = new Set(local.map(item => item.id));
+    return [...merged, ...incoming.filter(item => !localIds.has(item.id))];
+}
+
+// Import a backup, then rebuild reminder alarms
+export async function applyBackup(backup: BackupFile, mode: ImportMode): Promise<void> {
+    const local = await readLocalData();
+    const data = backup.data;
+    const incomingLists = data.todoLists ?? [];
+    const incomingArchive = data.archivedTodos ?? [];
+
+    const todos = mode === 'replace' ? data.todos : mergeById(local.todos, data.todos);
+
+    await saveTodos(todos);
+    await saveTodoLists(mode === 'replace' && incomingLists.length > 0 ? incomingLists : mergeById(local.todoLists, incomingLists));
+    await saveCategories(mode === 'replace' ? data.categories : mergeById(local.categories, data.categories));
+    await saveArchivedTodos(mode === 'replace' ? incomingArchive : mergeById(local.archivedTodos, incomingArchive));
+    // Backups made before time tracking and focus sessions were saved leave the local entries alone
+    if (data.timeEntries) {
+        await saveTimeEntries(mode === 'replace' ? data.timeEntries : mergeById(local.timeEntries, data.timeEntries));
+    }
+    if (data.pomodoros) {
+        await savePomodoros(mode === 'replace' ? data.pomodoros : mergeById(local.pomodoros, data.pomodoros));
+    }
+
+    // Settings are only overwritten in replace mode
+    if (mode === 'replace') {
+        if (data.theme) await saveTheme(data.theme);
+        if (data.boardColumns?.length) await saveBoardColumns(data.boardColumns);
+        if (data.trashRetentionDays) await saveTrashRetentionDays(data.trashRetentionDays);
+        if (data.archiveAfterDays) await saveArchiveAfterDays(data.archiveAfterDays);
+        if (data.focusSettings) await saveFocusSettings(data.focusSettings);
+        if (data.activeTimer !== undefined) {
+            // A timer on a todo the backup does not have would record time against nothing
+            const timer = data.activeTimer && todos.some(t => t.id === data.activeTimer?.todoId) ? data.activeTimer : null;
+            await saveActiveTimer(timer);
+        }
+        if (data.githubSettings) {
+            // A backup without token never erases the local one
+            await saveGitHubSettings({
+                ...data.githubSettings,
+                token: data.githubSettings.token || local.githubSettings.token
+            });
+        }
+    }
+
+    if (typeof chrome !== 'undefined' && chrome.alarms) {
+        await rebuildReminders(todos);
+    }
+}
@@ -0,0 +1,64 @@
+// Service for "blocked by" dependencies between todos
+
+import type { Todo } from './storageService';
+
+// Pending todos still blocking a todo (completed, deleted or archived blockers no longer count)
+export function getBlockers(todo: Todo, todos: Todo[]): Todo[] {
+    if (!todo.blockedBy?.length) return [];
+    return todos.filter(t => todo.blockedBy!.includes(t.id) && !t.completed && !t.deletedAt);
+}
+
+export function isBlocked(todo: Todo, todos: Todo[]): boolean {
+    return getBlockers(todo, todos).length > 0;
+}
+
+// The dependency path leading back to the todo if it were blocked by `blockedBy`, or null when there is no cycle
+export function findDependencyCycle(todoId: string, blockedBy: string[], todos: Todo[]): Todo[] | null {
+    const byId = new Map(todos.map(t => [t.id, t]));
+    const visited = new Set<string>();
+
+    const visit = (id: string, path: Todo[]): Todo[] | null => {
+        if (id === todoId) return path;
+        if (visited.has(id)) return null;
+        visited.add(id);
+
+        const todo = byId.get(id);
+        if (!todo) return null;
+        for (const next of todo.blockedBy ?? []) {
+            const cycle = visit(next, [...path, todo]);
+            if (cycle) return cycle;
+        }
+        return null;
+    };
+
+    for (const id of blockedBy) {
+        const cycle = visit(id, []);
+        if (cycle) return cycle;
+    }
+    return null;
+}
+
+// Throw when the dependencies would create a cycle
+export function assertNoDependencyCycle(todoId: string, blockedBy: string[], todos: Todo[]): void {
+    const cycle = findDependencyCycle(todoId, blockedBy, todos);
+    if (!cycle) return;
+
+    const todo = todos.find(t => t.id === todoId);
+    const names = [todo, ...cycle, todo].map(t => `"${t?.title ?? '?'}"`);
+    throw new Error(`Dépendance circulaire : ${names.join(' → ')}`);
+}
+
+// Todos that were blocked before a change and became available because one of their blockers was completed
+export function getNewlyUnblocked(previous: Todo[], current: Todo[]): Todo[] {
+    const previousById = new Map(previous.map(t => [t.id, t]));
+    const completedIds = new Set(current
+        .filter(t => t.completed && previousById.has(t.id) && !previousById.get(t.id)!.completed)
+        .map(t => t.id));
+    if (completedIds.size === 0) return [];
+
+    return current.filter(todo => {
+        if (todo.completed || todo.deletedAt || !todo.blockedBy?.some(id => completedIds.has(id))) return false;
+        const before = previousById.get(todo.id);
+        return !!before && isBlocked(before, previous) && !isBlocked(todo, current);
+    });
+}
@@ -0,0 +1,106 @@
+// Service for the pomodoro focus mode: work/break phases driven by the background worker
+
+import type { FocusSession, Pomodoro } from './storageService';
+import { getFocusSettings, getFocusSession, saveFocusSession, getPomodoros, savePomodoros } from './storageService';
+
+export type FocusMessage =
+    | { type: 'startFocus'; todoId: string }
+    | { type: 'stopFocus' }
+    | { type: 'skipFocusPhase' };
+
+export const FOCUS_PHASE_ALARM = 'focusPhase';
+
+const isExtension = typeof chrome !== 'undefined' && chrome.runtime?.id;
+
+// Start a work phase on a todo, replacing any running session
+export async function beginFocus(todoId: string, now = Date.now()): Promise<FocusSession> {
+    const settings = await getFocusSettings();
+    const session: FocusSession = {
+        todoId,
+        phase: 'work',
+        phaseStart: now,
+        phaseEnd: now + settings.workMinutes * 60000,
+        completedPomodoros: 0
+    };
+    await saveFocusSession(session);
+    return session;
+}
+
+// Switch to the next phase; a work phase that ran to its end is logged as a pomodoro
+export async function advanceFocus(completed: boolean, now = Date.now()): Promise<FocusSession | null> {
+    const session = await getFocusSession();
+    if (!session) return null;
+
+    const settings = await getFocusSettings();
+    let completedPomodoros = session.completedPomodoros;
+
+    if (session.phase === 'work' && completed) {
+        const pomodoro: Pomodoro = {
+            id: crypto.randomUUID(),
+            todoId: session.todoId,
+            start: session.phaseStart,
+            end: session.phaseEnd
+        };
+        const pomodoros = await getPomodoros();
+        await savePomodoros([...pomodoros, pomodoro]);
+        completedPomodoros++;
+    }
+
+    const phase = session.phase === 'work' ? 'break' : 'work';
+    const next: FocusSession = {
+        ...session,
+        phase,
+        phaseStart: now,
+        phaseEnd: now + (phase === 'work' ? settings.workMinutes : settings.breakMinutes) * 60000,
+        completedPomodoros
+    };
+    await saveFocusSession(next);
+    return next;
+}
+
+// Stop the focus session
+export async function endFocus(): Promise<void> {
+    await saveFocusSession(null);
+}
+
+// Ask the background worker to start a focus session (it keeps running when the panel closes)
+export async function startFocus(todoId: string): Promise<void> {
+    if (!isExtension) {
+        await beginFocus(todoId);
+        return;
+    }
+    await chrome.runtime.sendMessage({ type: 'startFocus', todoId } satisfies FocusMessage);
+}
+
+// Ask the background worker to stop the focus session
+export async function stopFocus(): Promise<void> {
+    if (!isExtension) {
+        await endFocus();
+        return;
+    }
+    await chrome.runtime.sendMessage({ type: 'stopFocus' } satisfies FocusMessage);
+}
+
+// Ask the background worker to end the current phase early
+export async function skipFocusPhase(): Promise<void> {
+    if (!isExtension) {
+        await advanceFocus(false);
+        return;
+    }
+    await chrome.runtime.sendMessage({ type: 'skipFocusPhase' } satisfies FocusMessage);
+}
+
+// Whole minutes left in the current phase, rounded up
+export function getRemainingMinutes(session: FocusSession, now = Date.now()): number {
+    return Math.max(0, Math.ceil((session.phaseEnd - now) / 60000));
+}
+
+// Number of pomodoros per todo completed within [from, to)
+export function countPomodoros(pomodoros: Pomodoro[], from: number, to: number): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const pomodoro of pomodoros) {
+        if (pomodoro.end < from || pomodoro.end >= to) continue;
+        counts.set(pomodoro.todoId, (counts.get(pomodoro.todoId) ?? 0) + 1);
+    }
+    return counts;
+}
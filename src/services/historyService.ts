@@ -0,0 +1,171 @@
+// Service for undo/redo of todo and category mutations
+
+import type { Todo, Category } from './storageService';
+import { getTodos, saveTodos, getCategories, saveCategories, getArchivedTodos } from './storageService';
+import { rescheduleReminders, cancelReminders } from './reminderService';
+
+export interface HistorySnapshot {
+    todos: Todo[];
+    categories: Category[];
+}
+
+// An item touched by a mutation, as it was before and after it (undefined when absent)
+interface ItemChange<T> {
+    id: string;
+    before?: T;
+    after?: T;
+}
+
+// Ids in list order before and after a mutation, kept when the order changed (e.g. a drag reorder)
+interface OrderChange {
+    before: string[];
+    after: string[];
+}
+
+interface HistoryEntry {
+    label: string;
+    todos: ItemChange<Todo>[];
+    categories: ItemChange<Category>[];
+    todoOrder?: OrderChange;
+    categoryOrder?: OrderChange;
+}
+
+const MAX_HISTORY = 50;
+
+const undoStack: HistoryEntry[] = [];
+const redoStack: HistoryEntry[] = [];
+
+async function takeSnapshot(): Promise<HistorySnapshot> {
+    const [todos, categories] = await Promise.all([getTodos(), getCategories()]);
+    return { todos, categories };
+}
+
+// Items that differ between two versions of a list
+function diffItems<T extends { id: string }>(before: T[], after: T[]): ItemChange<T>[] {
+    const ids = new Set([...before, ...after].map(item => item.id));
+    return [...ids]
+        .map(id => ({ id, before: before.find(item => item.id === id), after: after.find(item => item.id === id) }))
+        .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+function diffOrder<T extends { id: string }>(before: T[], after: T[]): OrderChange | undefined {
+    const ids = { before: before.map(item => item.id), after: after.map(item => item.id) };
+    return ids.before.join() === ids.after.join() ? undefined : ids;
+}
+
+// Put the items listed in `order` back in that order, in the slots they hold now; other items keep their place
+function restoreOrder<T extends { id: string }>(items: T[], order?: string[]): T[] {
+    if (!order) return items;
+    const rank = new Map(order.map((id, index) => [id, index]));
+    const ranked = items
+        .filter(item => rank.has(item.id))
+        .sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+    let next = 0;
+    return items.map(item => rank.has(item.id) ? ranked[next++] : item);
+}
+
+// Apply changes to the current items, going from `from` to `to`. Items the entry did not touch keep their
+// current value, an item the change expects but that is gone is not brought back, and `skippedIds` (archived
+// todos) are left alone.
+function patchItems<T extends { id: string }>(
+    current: T[],
+    changes: ItemChange<T>[],
+    from: 'before' | 'after',
+    to: 'before' | 'after',
+    skippedIds = new Set<string>()
+): T[] {
+    let items = [...current];
+    for (const change of changes) {
+        if (skippedIds.has(change.id)) continue;
+        const index = items.findIndex(item => item.id === change.id);
+        const target = change[to];
+        if (index === -1) {
+            if (target && !change[from]) items.push(target);
+        } else if (target) {
+            items[index] = target;
+        } else {
+            items = items.filter(item => item.id !== change.id);
+        }
+    }
+    return items;
+}
+
+// Reminder alarms a todo needs; a todo in the trash needs none, so undoing a delete schedules them again
+function reminderKey(todo?: Todo): string {
+    if (!todo || todo.completed || todo.deletedAt || !todo.startDate || !todo.reminders?.length) return '';
+    return `${todo.startDate}:${todo.reminders.join(',')}`;
+}
+
+// Apply an entry to the current storage in one direction and bring reminder alarms in line with it
+async function applyEntry(entry: HistoryEntry, from: 'before' | 'after', to: 'before' | 'after'): Promise<HistorySnapshot> {
+    const [current, archivedTodos] = await Promise.all([takeSnapshot(), getArchivedTodos()]);
+    const todos = restoreOrder(
+        patchItems(current.todos, entry.todos, from, to, new Set(archivedTodos.map(t => t.id))),
+        entry.todoOrder?.[to]
+    );
+    const categories = restoreOrder(patchItems(current.categories, entry.categories, from, to), entry.categoryOrder?.[to]);
+    await saveTodos(todos);
+    await saveCategories(categories);
+
+    for (const { id } of entry.todos) {
+        const before = current.todos.find(t => t.id === id);
+        const after = todos.find(t => t.id === id);
+        if (reminderKey(before) === reminderKey(after)) continue;
+
+        if (after?.startDate && after.reminders && reminderKey(after)) {
+            await rescheduleReminders(after.id, after.startDate, after.reminders);
+        } else {
+            await cancelReminders(id);
+        }
+    }
+
+    return { todos, categories };
+}
+
+// Run a mutation and record the items and order it changed so it can be undone; a mutation that changed
+// nothing is not recorded, and `onRecorded` only runs when it was
+export async function record<T>(label: string, mutation: () => Promise<T>, onRecorded?: () => void): Promise<T> {
+    const before = await takeSnapshot();
+    const result = await mutation();
+    const after = await takeSnapshot();
+
+    const entry: HistoryEntry = {
+        label,
+        todos: diffItems(before.todos, after.todos),
+        categories: diffItems(before.categories, after.categories),
+        todoOrder: diffOrder(before.todos, after.todos),
+        categoryOrder: diffOrder(before.categories, after.categories)
+    };
+    if (entry.todos.length === 0 && entry.categories.length === 0 && !entry.todoOrder && !entry.categoryOrder) {
+        return result;
+    }
+
+    undoStack.push(entry);
+    if (undoStack.length > MAX_HISTORY) {
+        undoStack.shift();
+    }
+    redoStack.length = 0;
+    onRecorded?.();
+
+    return result;
+}
+
+// Undo the last mutation, returning the resulting state
+export async function undo(): Promise<(HistorySnapshot & { label: string }) | null> {
+    const entry = undoStack.pop();
+    if (!entry) return null;
+
+    const restored = await applyEntry(entry, 'after', 'before');
+    redoStack.push(entry);
+    return { ...restored, label: entry.label };
+}
+
+// Redo the last undone mutation, returning the resulting state
+export async function redo(): Promise<(HistorySnapshot & { label: string }) | null> {
+    const entry = redoStack.pop();
+    if (!entry) return null;
+
+    const restored = await applyEntry(entry, 'before', 'after');
+    undoStack.push(entry);
+    return { ...restored, label: entry.label };
+}
@@ -0,0 +1,463 @@
+// Service for iCalendar (.ics) export and import of scheduled todos
+
+import type { Category, Priority, Recurrence, Todo } from './storageService';
+import { getTodoCategories } from './storageService';
+import type { ImportedLabel, ImportedTask } from './importService';
+import { getMonthlyRuleFor, getNextDueDate, getNextOccurrence } from './recurrenceService';
+
+export type IcsComponent = 'VEVENT' | 'VTODO';
+
+const PRODID = '-//Todo Manager//Extension//FR';
+const UID_DOMAIN = 'todo-manager';
+const EVENT_DURATION_MS = 30 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_LINE_LENGTH = 75; // octets
+
+const icsWeekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// --- Export ---
+
+function escapeText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// UTF-8 length of a single code point
+function utf8Length(char: string): number {
+    const code = char.codePointAt(0) ?? 0;
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+// Fold lines longer than 75 octets as required by RFC 5545, never inside a character
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let part = '';
+    let size = 0;
+    for (const char of line) {
+        const length = utf8Length(char);
+        if (size + length > MAX_LINE_LENGTH) {
+            parts.push(part);
+            // Continuation lines start with a space
+            part = ' ';
+            size = 1;
+        }
+        part += char;
+        size += length;
+    }
+    parts.push(part);
+    return parts.join('\r\n');
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function formatUtc(timestamp: number): string {
+    const d = new Date(timestamp);
+    return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+function formatLocalDate(timestamp: number): string {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+}
+
+// Todos scheduled at midnight are exported as all-day entries
+function isAllDay(timestamp: number): boolean {
+    const d = new Date(timestamp);
+    return d.getHours() === 0 && d.getMinutes() === 0;
+}
+
+function dateProperty(name: string, timestamp: number, allDay: boolean): string {
+    return allDay ? `${name};VALUE=DATE:${formatLocalDate(timestamp)}` : `${name}:${formatUtc(timestamp)}`;
+}
+
+// iCalendar priority: 1 (highest) to 9 (lowest), 0 = undefined
+const icsPriorities: Record<Priority, number> = { 1: 1, 2: 3, 3: 5, 4: 0 };
+
+function toRRule(recurrence: Recurrence, startDate: number): string | null {
+    switch (recurrence.frequency) {
+        case 'daily':
+            return 'FREQ=DAILY';
+        case 'weekdays':
+            return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+        case 'weekly': {
+            const days = recurrence.daysOfWeek?.length ? recurrence.daysOfWeek : [new Date(startDate).getDay()];
+            return `FREQ=WEEKLY;BYDAY=${days.map(d => icsWeekdays[d]).join(',')}`;
+        }
+        case 'monthly': {
+            const rule = recurrence.weekOfMonth !== undefined ? recurrence : getMonthlyRuleFor(startDate);
+            return `FREQ=MONTHLY;BYDAY=${rule.weekOfMonth}${icsWeekdays[rule.dayOfWeek ?? new Date(startDate).getDay()]}`;
+        }
+        default:
+            // "N days after completion" has no calendar equivalent
+            return null;
+    }
+}
+
+function buildComponent(todo: Todo & { startDate: number }, component: IcsComponent, categories: Category[], now: number): string[] {
+    const allDay = isAllDay(todo.startDate);
+    const tags = getTodoCategories(todo, categories);
+    const lines = [
+        `BEGIN:${component}`,
+        `UID:${todo.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${formatUtc(now)}`,
+        `CREATED:${formatUtc(todo.createdAt)}`,
+        `SUMMARY:${escapeText(todo.title)}`,
+        dateProperty('DTSTART', todo.startDate, allDay)
+    ];
+
+    if (component === 'VEVENT') {
+        lines.push(allDay
+            ? dateProperty('DTEND', new Date(todo.startDate).setDate(new Date(todo.startDate).getDate() + 1), true)
+            : dateProperty('DTEND', todo.startDate + EVENT_DURATION_MS, false));
+    } else {
+        // DUE takes the value type of DTSTART; a timed due date falls at the end of the due day
+        if (todo.dueDate) {
+            lines.push(allDay
+                ? dateProperty('DUE', todo.dueDate, true)
+                : dateProperty('DUE', new Date(todo.dueDate).setDate(new Date(todo.dueDate).getDate() + 1), false));
+        }
+        lines.push(`STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+        if (todo.completed && todo.completedAt) lines.push(`COMPLETED:${formatUtc(todo.completedAt)}`);
+    }
+
+    if (todo.comment) lines.push(`DESCRIPTION:${escapeText(todo.comment)}`);
+    if (todo.link) lines.push(`URL:${todo.link}`);
+    if (tags.length > 0) lines.push(`CATEGORIES:${tags.map(c => escapeText(c.name)).join(',')}`);
+    if (todo.priority && icsPriorities[todo.priority]) lines.push(`PRIORITY:${icsPriorities[todo.priority]}`);
+
+    const rrule = todo.recurrence && toRRule(todo.recurrence, todo.startDate);
+    if (rrule) lines.push(`RRULE:${rrule}`);
+
+    if (!todo.completed) {
+        for (const minutes of todo.reminders ?? []) {
+            lines.push(
+                'BEGIN:VALARM',
+                'ACTION:DISPLAY',
+                `DESCRIPTION:${escapeText(todo.title)}`,
+                `TRIGGER:-PT${minutes}M`,
+                'END:VALARM'
+            );
+        }
+    }
+
+    lines.push(`END:${component}`);
+    return lines;
+}
+
+// Build an .ics calendar from every scheduled todo
+export function exportIcs(todos: Todo[], categories: Category[], component: IcsComponent, now = Date.now()): string {
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+
+    for (const todo of todos) {
+        if (todo.deletedAt || !todo.startDate) continue;
+        lines.push(...buildComponent({ ...todo, startDate: todo.startDate }, component, categories, now));
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Save an .ics calendar as a file
+export function downloadIcs(content: string) {
+    const blob = new Blob([content], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `todo-manager-${new Date().toISOString().slice(0, 10)}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// --- Import ---
+
+interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1');
+}
+
+// CATEGORIES holds a comma-separated list of tags
+function parseCategories(value: string): ImportedLabel[] | undefined {
+    const labels = value.split(/(?<!\\),/)
+        .map(name => unescapeText(name).trim())
+        .filter(Boolean)
+        .map(name => ({ name }));
+    return labels.length > 0 ? labels : undefined;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+    // The value starts at the first colon outside quoted parameter values
+    let colon = -1;
+    let inQuotes = false;
+    for (let i = 0; i < line.length && colon === -1; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) colon = i;
+    }
+    if (colon === -1) return null;
+
+    const [name, ...rawParams] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const [key, value = ''] = param.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// Offset of a time zone from UTC at a given instant, in milliseconds (throws for unknown zones)
+function getZoneOffset(timeZone: string, timestamp: number): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(timestamp);
+    const part = (type: Intl.DateTimeFormatPartTypes) => +(parts.find(p => p.type === type)?.value ?? 0);
+    const wallTime = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+    return wallTime - Math.floor(timestamp / 1000) * 1000;
+}
+
+// Parse DATE and DATE-TIME values; TZID times are converted from their time zone, floating times
+// and times in a zone this browser does not know are read as local time (with a warning)
+function parseIcsDate(property: IcsProperty, warnings: string[] = []): number | undefined {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(property.value.trim());
+    if (!match) return undefined;
+
+    const [, y, m, d, h, min = '0', s = '0', utc] = match;
+    if (utc) return Date.UTC(+y, +m - 1, +d, +h, +min, +s);
+
+    const timeZone = property.params.TZID;
+    if (h !== undefined && timeZone) {
+        try {
+            // Correct the wall time by the zone offset, twice to settle across DST changes
+            const wallTime = Date.UTC(+y, +m - 1, +d, +h, +min, +s);
+            const guess = wallTime - getZoneOffset(timeZone, wallTime);
+            return wallTime - getZoneOffset(timeZone, guess);
+        } catch {
+            const warning = `fuseau horaire « ${timeZone} » inconnu, heure lue en heure locale`;
+            if (!warnings.includes(warning)) warnings.push(warning);
+        }
+    }
+    return new Date(+y, +m - 1, +d, +(h ?? 0), +min, +s).getTime();
+}
+
+// Due dates are days: a DATE is that day, a DATE-TIME is due by then, so on the day just before that instant
+function parseDueDate(property: IcsProperty, warnings: string[]): number | undefined {
+    const due = parseIcsDate(property, warnings);
+    if (due === undefined) return undefined;
+    return property.value.includes('T') ? new Date(due - 1).setHours(0, 0, 0, 0) : due;
+}
+
+// Convert a TRIGGER duration such as -PT15M or -P1DT2H into minutes before the start
+function parseTrigger(value: string): number | undefined {
+    const match = /^-P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return undefined;
+
+    const [, w = '0', d = '0', h = '0', m = '0'] = match;
+    const minutes = +w * 10080 + +d * 1440 + +h * 60 + +m;
+    return minutes > 0 ? minutes : undefined;
+}
+
+function fromIcsPriority(value: string): Priority | undefined {
+    const priority = parseInt(value);
+    if (!priority) return undefined;
+    if (priority === 1) return 1;
+    if (priority <= 4) return 2;
+    if (priority === 5) return 3;
+    return 4;
+}
+
+// A parsed RRULE: the recurrence it maps to and where the series ends, or why it cannot be kept
+interface IcsRule {
+    recurrence?: Recurrence;
+    until?: number;
+    count?: number;
+    unsupported?: string;
+}
+
+const unsupportedFrequencies: Record<string, string> = {
+    YEARLY: 'répétition annuelle non prise en charge',
+    HOURLY: 'répétition horaire non prise en charge',
+    MINUTELY: 'répétition à la minute non prise en charge',
+    SECONDLY: 'répétition à la seconde non prise en charge'
+};
+
+function fromRRule(value: string, startDate: number): IcsRule {
+    const rule: Record<string, string> = {};
+    for (const part of value.split(';')) {
+        const [key, val] = part.split('=');
+        rule[key.toUpperCase()] = val ?? '';
+    }
+
+    // Recurrences only repeat at every period
+    const interval = rule.INTERVAL ? parseInt(rule.INTERVAL) : 1;
+    if (interval > 1) {
+        return { unsupported: `répétition avec un intervalle de ${interval} non prise en charge` };
+    }
+
+    // A date-only UNTIL includes its whole day
+    const until = rule.UNTIL ? parseIcsDate({ name: 'UNTIL', params: {}, value: rule.UNTIL }) : undefined;
+    const end = {
+        until: until !== undefined && rule.UNTIL.length === 8 ? new Date(until).setHours(23, 59, 59, 999) : until,
+        count: rule.COUNT ? parseInt(rule.COUNT) || undefined : undefined
+    };
+
+    const byDay = rule.BYDAY ? rule.BYDAY.split(',') : [];
+    switch (rule.FREQ) {
+        case 'DAILY':
+            return { recurrence: { frequency: 'daily' }, ...end };
+        case 'WEEKLY': {
+            const days = byDay.map(d => icsWeekdays.indexOf(d.slice(-2))).filter(d => d !== -1);
+            if (days.length === 5 && [1, 2, 3, 4, 5].every(d => days.includes(d))) {
+                return { recurrence: { frequency: 'weekdays' }, ...end };
+            }
+            return { recurrence: { frequency: 'weekly', daysOfWeek: days.length > 0 ? days : [new Date(startDate).getDay()] }, ...end };
+        }
+        case 'MONTHLY': {
+            const match = /^([+-]?\d)?([A-Z]{2})$/.exec(byDay[0] ?? '');
+            const week = match?.[1] ? parseInt(match[1]) : parseInt(rule.BYSETPOS);
+            const weekday = match ? icsWeekdays.indexOf(match[2]) : -1;
+            if (weekday !== -1 && (week === -1 || (week >= 1 && week <= 4))) {
+                return { recurrence: { frequency: 'monthly', weekOfMonth: week, dayOfWeek: weekday }, ...end };
+            }
+            // Recurrences repeat on a weekday of the month, never on a fixed day of the month
+            const monthDay = rule.BYMONTHDAY || (byDay.length === 0 ? String(new Date(startDate).getDate()) : '');
+            return {
+                unsupported: monthDay
+                    ? `répétition le ${monthDay} du mois non prise en charge`
+                    : `répétition « ${value} » non prise en charge`
+            };
+        }
+        default:
+            return { unsupported: unsupportedFrequencies[rule.FREQ] ?? `répétition « ${value} » non prise en charge` };
+    }
+}
+
+// Unfold continuation lines and split into properties
+function readLines(text: string): string[] {
+    return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim());
+}
+
+// Parse VEVENT and VTODO entries into tasks; recurring entries start at their next occurrence,
+// and what could not be imported as is is listed in each task's warnings
+export function parseIcs(text: string, now = Date.now()): ImportedTask[] {
+    const lines = readLines(text);
+    if (!lines[0]?.trim().toUpperCase().startsWith('BEGIN:VCALENDAR')) {
+        throw new Error("Ce fichier n'est pas un calendrier iCalendar");
+    }
+
+    const tasks: ImportedTask[] = [];
+    let current: { component: IcsComponent; properties: IcsProperty[]; reminders: number[] } | null = null;
+    let inAlarm = false;
+
+    for (const line of lines) {
+        const property = parseProperty(line.trim());
+        if (!property) continue;
+
+        if (property.name === 'BEGIN' && (property.value === 'VEVENT' || property.value === 'VTODO')) {
+            current = { component: property.value, properties: [], reminders: [] };
+        } else if (property.name === 'BEGIN' && property.value === 'VALARM') {
+            inAlarm = true;
+        } else if (property.name === 'END' && property.value === 'VALARM') {
+            inAlarm = false;
+        } else if (property.name === 'END' && current && property.value === current.component) {
+            // Modified instances of a recurring series (RECURRENCE-ID) are covered by the series itself
+            const isOverride = current.properties.some(p => p.name === 'RECURRENCE-ID');
+            const task = isOverride ? null : toTask(current.properties, current.reminders, now);
+            if (task) tasks.push(task);
+            current = null;
+        } else if (current && inAlarm) {
+            if (property.name === 'TRIGGER' && property.params.RELATED !== 'END') {
+                const minutes = parseTrigger(property.value);
+                if (minutes && !current.reminders.includes(minutes)) current.reminders.push(minutes);
+            }
+        } else if (current) {
+            current.properties.push(property);
+        }
+    }
+
+    return tasks;
+}
+
+// Move a date forward by whole weeks up to a week before `now`, keeping weekday and time of day
+function skipWholeWeeks(timestamp: number, now: number): number {
+    const weeks = Math.floor((now - timestamp) / WEEK_MS) - 1;
+    if (weeks <= 0) return timestamp;
+
+    const date = new Date(timestamp);
+    date.setDate(date.getDate() + weeks * 7);
+    return date.getTime();
+}
+
+// First occurrence of a series after `now`, or undefined when the series ends before it
+function resumeSeries(recurrence: Recurrence, rule: IcsRule, startDate: number, now: number): number | undefined {
+    let next: number;
+    if (rule.count) {
+        // COUNT includes DTSTART, so occurrences are walked from the start
+        next = startDate;
+        for (let index = 1; next <= now; index++) {
+            if (index >= rule.count) return undefined;
+            next = getNextOccurrence(recurrence, next, next);
+        }
+    } else {
+        next = getNextOccurrence(recurrence, skipWholeWeeks(startDate, now), now);
+    }
+    return rule.until !== undefined && next > rule.until ? undefined : next;
+}
+
+function toTask(properties: IcsProperty[], reminders: number[], now: number): ImportedTask | null {
+    const get = (name: string) => properties.find(p => p.name === name);
+
+    const title = unescapeText(get('SUMMARY')?.value ?? '').trim();
+    if (!title) return null;
+
+    const warnings: string[] = [];
+    const start = get('DTSTART') ?? get('DUE');
+    let startDate = start ? parseIcsDate(start, warnings) : undefined;
+    const due = get('DUE');
+    let dueDate = due ? parseDueDate(due, warnings) : undefined;
+
+    const rrule = get('RRULE');
+    const rule = rrule && startDate ? fromRRule(rrule.value, startDate) : undefined;
+    let recurrence = rule?.recurrence;
+    if (rule?.unsupported) {
+        warnings.push(rule.unsupported);
+    }
+    if (rule && recurrence && startDate) {
+        // Bring past recurring entries forward to their next occurrence; finished series keep their date
+        const next = startDate < now ? resumeSeries(recurrence, rule, startDate, now) : startDate;
+        if (next === undefined) {
+            recurrence = undefined;
+            warnings.push('série terminée, importée sans répétition');
+        } else {
+            // The due date moves along with the occurrence
+            if (dueDate !== undefined) dueDate = getNextDueDate(dueDate, startDate, next);
+            startDate = next;
+            if (rule.until !== undefined || rule.count) {
+                warnings.push('fin de la série non reprise, la répétition continue sans limite');
+            }
+        }
+    }
+
+    const uid = get('UID')?.value ?? '';
+    const categories = get('CATEGORIES');
+    const status = get('STATUS')?.value.toUpperCase();
+
+    return {
+        id: uid.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -UID_DOMAIN.length - 1) : undefined,
+        title,
+        comment: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')?.value ?? '').trim() || undefined : undefined,
+        link: get('URL')?.value || undefined,
+        labels: categories ? parseCategories(categories.value) : undefined,
+        startDate,
+        dueDate,
+        priority: get('PRIORITY') ? fromIcsPriority(get('PRIORITY')?.value ?? '') : undefined,
+        completed: status === 'COMPLETED' || !!get('COMPLETED') || undefined,
+        reminders: startDate && reminders.length > 0 ? reminders.sort((a, b) => a - b) : undefined,
+        recurrence,
+        warnings: warnings.length > 0 ? warnings : undefined
+    };
+}
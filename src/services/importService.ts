@@ -0,0 +1,388 @@
+// Service for importing tasks from Todoist CSV, Trello board JSON and generic CSV exports
+
+import type { Category, Priority, Recurrence, Subtask, Todo } from './storageService';
+import { getCategories, getTodos, saveCategories, saveTodos } from './storageService';
+import { rescheduleReminders } from './reminderService';
+import { parseQuickAdd } from './quickAddService';
+
+export type ImportSource = 'todoist' | 'trello' | 'csv' | 'ics';
+
+export interface ImportedLabel {
+    name: string;
+    color?: string;
+}
+
+export interface ImportedTask {
+    id?: string; // existing todo to update instead of creating a new one
+    title: string;
+    comment?: string;
+    link?: string;
+    labels?: ImportedLabel[];
+    startDate?: number;
+    dueDate?: number;
+    priority?: Priority;
+    completed?: boolean;
+    subtasks?: Subtask[];
+    reminders?: number[];
+    recurrence?: Recurrence;
+    warnings?: string[]; // what the source had that could not be imported as is
+}
+
+export type CsvField = 'title' | 'comment' | 'category' | 'startDate' | 'priority' | 'completed';
+
+// Column index for each field, -1 when the field is not mapped
+export type CsvMapping = Record<CsvField, number>;
+
+export const csvFields: { id: CsvField; label: string }[] = [
+    { id: 'title', label: 'Titre' },
+    { id: 'comment', label: 'Commentaire' },
+    { id: 'category', label: 'Label / projet' },
+    { id: 'startDate', label: 'Date' },
+    { id: 'priority', label: 'Priorité' },
+    { id: 'completed', label: 'Terminée' }
+];
+
+// Header names recognised when guessing a mapping
+const csvFieldAliases: Record<CsvField, string[]> = {
+    title: ['title', 'titre', 'name', 'nom', 'task', 'tache', 'content', 'summary'],
+    comment: ['comment', 'commentaire', 'description', 'notes', 'note', 'desc'],
+    category: ['category', 'categorie', 'label', 'labels', 'project', 'projet', 'list', 'liste', 'tag', 'tags'],
+    startDate: ['date', 'due', 'due date', 'echeance', 'start', 'start date', 'debut'],
+    priority: ['priority', 'priorite'],
+    completed: ['completed', 'done', 'termine', 'terminee', 'status', 'statut']
+};
+
+const categoryColors = ['#3b82f6', '#a855f7', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#14b8a6', '#6366f1'];
+
+const trelloColors: Record<string, string> = {
+    green: '#22c55e', yellow: '#eab308', orange: '#f97316', red: '#ef4444', purple: '#a855f7',
+    blue: '#3b82f6', sky: '#0ea5e9', lime: '#84cc16', pink: '#ec4899', black: '#374151'
+};
+
+// Lowercase and strip accents for lenient comparisons
+function normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+// Parse CSV text (comma or semicolon separated, RFC 4180 quoting) into rows
+export function parseCsv(text: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split('\n', 1)[0];
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+// Parse ISO, dd/mm/yyyy or natural-language dates, returning a timestamp
+export function parseImportDate(value: string): number | undefined {
+    const text = value.trim();
+    if (!text) return undefined;
+
+    const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/.exec(text);
+    if (iso) {
+        // Full timestamps carry their own timezone
+        if (/T\d{2}:\d{2}.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+            const parsed = Date.parse(text);
+            if (!isNaN(parsed)) return parsed;
+        }
+        const [, y, m, d, h, min] = iso;
+        return new Date(+y, +m - 1, +d, h ? +h : 0, min ? +min : 0).getTime();
+    }
+
+    const fr = /^(\d{1,2})[/.](\d{1,2})[/.](\d{2,4})(?:\s+(\d{1,2})[:h](\d{2}))?/.exec(text);
+    if (fr) {
+        const [, d, m, y, h, min] = fr;
+        const year = y.length === 2 ? 2000 + +y : +y;
+        return new Date(year, +m - 1, +d, h ? +h : 0, min ? +min : 0).getTime();
+    }
+
+    return parseQuickAdd(text, []).startDate;
+}
+
+function parsePriority(value: string): Priority | undefined {
+    const match = /[1-4]/.exec(value);
+    return match ? (+match[0] as Priority) : undefined;
+}
+
+function parseCompleted(value: string): boolean {
+    return ['1', 'true', 'yes', 'oui', 'x', 'done', 'completed', 'termine', 'terminee'].includes(normalize(value));
+}
+
+// A label cell may hold several tags: "Travail, Urgent"
+function parseLabels(value: string): ImportedLabel[] | undefined {
+    const names = value.split(/[,;|]/).map(n => n.trim()).filter(Boolean);
+    return names.length > 0 ? names.map(name => ({ name })) : undefined;
+}
+
+// Todoist CSV export: one file per project, labels inline as @label, INDENT > 1 for sub-tasks
+export function parseTodoistCsv(text: string, projectName: string): ImportedTask[] {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+
+    const col = (name: string) => header.findIndex(h => h.trim().toUpperCase() === name);
+    const typeCol = col('TYPE');
+    const contentCol = col('CONTENT');
+    if (typeCol === -1 || contentCol === -1) {
+        throw new Error("Ce fichier n'est pas un export CSV Todoist");
+    }
+    const descriptionCol = col('DESCRIPTION');
+    const priorityCol = col('PRIORITY');
+    const indentCol = col('INDENT');
+    const dateCol = col('DATE');
+
+    const tasks: ImportedTask[] = [];
+    for (const row of rows) {
+        if (row[typeCol]?.trim() !== 'task') continue;
+
+        const labels: string[] = [];
+        const title = row[contentCol]
+            .replace(/(?<=^|\s)@([^\s@,;]+)/g, (_, label: string) => {
+                labels.push(label);
+                return '';
+            })
+            .replace(/\s+([,;])/g, '$1')
+            .replace(/\s+/g, ' ')
+            .trim();
+        if (!title) continue;
+
+        // Nested tasks become subtasks of the previous top-level task
+        const indent = indentCol !== -1 ? parseInt(row[indentCol]) || 1 : 1;
+        const parent = tasks[tasks.length - 1];
+        if (indent > 1 && parent) {
+            parent.subtasks = [...(parent.subtasks ?? []), { id: crypto.randomUUID(), title, completed: false }];
+            continue;
+        }
+
+        tasks.push({
+            title,
+            comment: descriptionCol !== -1 ? row[descriptionCol]?.trim() || undefined : undefined,
+            labels: labels.length > 0
+                ? labels.map(name => ({ name }))
+                : projectName.trim() ? [{ name: projectName.trim() }] : undefined,
+            startDate: dateCol !== -1 ? parseImportDate(row[dateCol] ?? '') : undefined,
+            priority: priorityCol !== -1 ? parsePriority(row[priorityCol] ?? '') : undefined
+        });
+    }
+
+    return tasks;
+}
+
+interface TrelloBoard {
+    lists?: { id: string; name: string; closed?: boolean }[];
+    cards?: {
+        id: string;
+        name: string;
+        desc?: string;
+        idList: string;
+        closed?: boolean;
+        due?: string | null;
+        start?: string | null;
+        dueComplete?: boolean;
+        labels?: { name: string; color?: string | null }[];
+    }[];
+    checklists?: { idCard: string; checkItems?: { name: string; state: string; pos?: number }[] }[];
+}
+
+// Trello board JSON export: labels (or the list name) become tags, checklists become subtasks
+export function parseTrelloJson(text: string): ImportedTask[] {
+    let board: TrelloBoard;
+    try {
+        board = JSON.parse(text);
+    } catch {
+        throw new Error('Fichier JSON illisible');
+    }
+    if (!Array.isArray(board.cards) || !Array.isArray(board.lists)) {
+        throw new Error("Ce fichier n'est pas un export de tableau Trello");
+    }
+
+    const lists = new Map(board.lists.map(l => [l.id, l]));
+
+    return board.cards
+        .filter(card => !card.closed && !lists.get(card.idList)?.closed && card.name.trim())
+        .map(card => {
+            const labels = (card.labels ?? [])
+                .filter(l => l.name.trim())
+                .map(l => ({ name: l.name.trim(), color: l.color ? trelloColors[l.color] : undefined }));
+            const listName = lists.get(card.idList)?.name;
+            const subtasks = (board.checklists ?? [])
+                .filter(c => c.idCard === card.id)
+                .flatMap(c => [...(c.checkItems ?? [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0)))
+                .map(item => ({ id: crypto.randomUUID(), title: item.name, completed: item.state === 'complete' }));
+
+            const date = card.start || card.due;
+            return {
+                title: card.name.trim(),
+                comment: card.desc?.trim() || undefined,
+                labels: labels.length > 0 ? labels : listName ? [{ name: listName }] : undefined,
+                startDate: date ? parseImportDate(date) : undefined,
+                completed: card.dueComplete || undefined,
+                subtasks: subtasks.length > 0 ? subtasks : undefined
+            };
+        });
+}
+
+// Guess which column holds each field from the CSV header
+export function guessCsvMapping(header: string[]): CsvMapping {
+    const normalized = header.map(normalize);
+    const mapping = {} as CsvMapping;
+    for (const { id } of csvFields) {
+        mapping[id] = normalized.findIndex(h => csvFieldAliases[id].includes(h));
+    }
+    if (mapping.title === -1 && header.length > 0) {
+        mapping.title = 0;
+    }
+    return mapping;
+}
+
+// Generic CSV with a user-defined column mapping (first row is the header)
+export function parseGenericCsv(rows: string[][], mapping: CsvMapping): ImportedTask[] {
+    const cell = (row: string[], field: CsvField) => (mapping[field] !== -1 ? row[mapping[field]]?.trim() ?? '' : '');
+
+    return rows.slice(1)
+        .filter(row => cell(row, 'title'))
+        .map(row => ({
+            title: cell(row, 'title'),
+            comment: cell(row, 'comment') || undefined,
+            labels: parseLabels(cell(row, 'category')),
+            startDate: parseImportDate(cell(row, 'startDate')),
+            priority: parsePriority(cell(row, 'priority')),
+            completed: parseCompleted(cell(row, 'completed')) || undefined
+        }));
+}
+
+// Categories the import would create
+export function getMissingCategoryNames(tasks: ImportedTask[], categories: Category[]): string[] {
+    const existing = new Set(categories.filter(c => !c.deletedAt).map(c => normalize(c.name)));
+    const missing = new Map<string, string>();
+    for (const task of tasks) {
+        for (const label of task.labels ?? []) {
+            const key = normalize(label.name);
+            if (!existing.has(key) && !missing.has(key)) {
+                missing.set(key, label.name.trim());
+            }
+        }
+    }
+    return [...missing.values()];
+}
+
+// Create the tasks in a list, creating missing categories on the way;
+// tasks carrying the id of an existing todo update it instead.
+// Everything is built in memory and saved in one write per key
+export async function importTasks(tasks: ImportedTask[], listId: string): Promise<Todo[]> {
+    const todos = await getTodos();
+    const allCategories = await getCategories();
+    const categories = allCategories.filter(c => !c.deletedAt);
+    const byName = new Map(categories.map(c => [normalize(c.name), c]));
+    const usedColors = new Set(categories.map(c => c.color));
+    let categoriesChanged = false;
+
+    const nextColor = () => {
+        const color = categoryColors.find(c => !usedColors.has(c)) ?? categoryColors[usedColors.size % categoryColors.length];
+        usedColors.add(color);
+        return color;
+    };
+
+    const imported: Todo[] = [];
+    for (const task of tasks) {
+        const categoryIds: string[] = [];
+        for (const label of task.labels ?? []) {
+            const key = normalize(label.name);
+            let category = byName.get(key);
+            if (!category) {
+                category = { id: crypto.randomUUID(), name: label.name.trim(), color: label.color ?? nextColor() };
+                allCategories.push(category);
+                byName.set(key, category);
+                categoriesChanged = true;
+            }
+            if (!categoryIds.includes(category.id)) {
+                categoryIds.push(category.id);
+            }
+        }
+
+        const details = {
+            comment: task.comment,
+            link: task.link,
+            categoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+            startDate: task.startDate,
+            dueDate: task.dueDate,
+            priority: task.priority,
+            reminders: task.reminders,
+            recurrence: task.recurrence
+        };
+
+        const index = task.id ? todos.findIndex(t => t.id === task.id && !t.deletedAt) : -1;
+        let todo: Todo = index !== -1
+            ? { ...todos[index], title: task.title, ...details }
+            : {
+                ...details,
+                listId,
+                subtasks: task.subtasks,
+                id: crypto.randomUUID(),
+                title: task.title,
+                completed: false,
+                createdAt: Date.now()
+            };
+
+        if (task.completed && !todo.completed) {
+            todo = { ...todo, completed: true, completedAt: Date.now() };
+        }
+
+        if (index !== -1) {
+            todos[index] = todo;
+        } else {
+            todos.push(todo);
+        }
+        imported.push(todo);
+    }
+
+    if (categoriesChanged) {
+        await saveCategories(allCategories);
+    }
+    await saveTodos(todos);
+
+    if (typeof chrome !== 'undefined' && chrome.alarms) {
+        for (const todo of imported) {
+            if (!todo.completed && todo.startDate && todo.reminders?.length) {
+                await rescheduleReminders(todo.id, todo.startDate, todo.reminders);
+            }
+        }
+    }
+
+    return imported;
+}
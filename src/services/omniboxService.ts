@@ -0,0 +1,101 @@
+// Service for the address bar keyword: "td Appeler Marc demain" adds a todo, "td ? facture" searches
+
+import type { PanelFocus, Todo } from './storageService';
+import type { GitHubIssue } from './githubService';
+import type { GmailEmail } from './gmailService';
+
+export type OmniboxInput =
+    | { mode: 'add'; text: string }
+    | { mode: 'search'; query: string };
+
+export interface OmniboxMatch {
+    target: PanelFocus;
+    label: string;
+    source: string;
+}
+
+export const OMNIBOX_SEARCH_PREFIX = '?';
+
+const MAX_SUGGESTIONS = 8;
+
+// Lowercase and strip accents for lenient comparisons
+function normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Whether the fields contain every word of the query
+export function matchesQuery(query: string, ...fields: (string | undefined)[]): boolean {
+    const text = normalize(fields.filter(Boolean).join(' '));
+    return normalize(query).split(/\s+/).filter(Boolean).every(word => text.includes(word));
+}
+
+// Omnibox descriptions are XML
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+export function parseOmniboxInput(input: string): OmniboxInput {
+    const text = input.trim();
+    if (text.startsWith(OMNIBOX_SEARCH_PREFIX)) {
+        return { mode: 'search', query: text.slice(OMNIBOX_SEARCH_PREFIX.length).trim() };
+    }
+    return { mode: 'add', text };
+}
+
+// Todos, GitHub issues and emails containing every word of the query, todos first
+export function searchOmnibox(
+    query: string,
+    todos: Todo[],
+    issues: GitHubIssue[],
+    emails: GmailEmail[],
+    limit = MAX_SUGGESTIONS
+): OmniboxMatch[] {
+    const matches = (...fields: (string | undefined)[]) => matchesQuery(query, ...fields);
+
+    return [
+        ...todos
+            .filter(t => !t.deletedAt && matches(t.title, t.comment))
+            .sort((a, b) => Number(a.completed) - Number(b.completed))
+            .map((t): OmniboxMatch => ({ target: { type: 'todo', id: t.id }, label: t.title, source: t.completed ? 'Tâche terminée' : 'Tâche' })),
+        ...issues
+            .filter(i => matches(`#${i.number}`, i.title))
+            .map((i): OmniboxMatch => ({ target: { type: 'issue', id: i.id }, label: `#${i.number} ${i.title}`, source: 'GitHub' })),
+        ...emails
+            .filter(e => matches(e.subject, e.from, e.snippet))
+            .map((e): OmniboxMatch => ({ target: { type: 'email', id: e.id }, label: e.subject || '(Sans objet)', source: `Mail de ${e.from}` }))
+    ].slice(0, limit);
+}
+
+// Suggestion content identifying the item, read back when the suggestion is picked
+export function encodeOmniboxTarget(target: PanelFocus): string {
+    return `${target.type}:${target.id}`;
+}
+
+export function decodeOmniboxTarget(content: string): PanelFocus | null {
+    const match = /^(todo|issue|email):(\S+)$/.exec(content.trim());
+    return match ? { type: match[1] as PanelFocus['type'], id: match[2] } : null;
+}
+
+export function formatOmniboxSuggestion(match: OmniboxMatch): chrome.omnibox.SuggestResult {
+    return {
+        content: encodeOmniboxTarget(match.target),
+        description: `${escapeXml(match.label)} <dim>— ${escapeXml(match.source)}</dim>`
+    };
+}
+
+// Default suggestion describing what pressing Enter will do
+export function describeOmniboxInput(input: OmniboxInput): string {
+    if (input.mode === 'search') {
+        return input.query
+            ? `Rechercher « ${escapeXml(input.query)} » dans les tâches, issues et mails`
+            : 'Rechercher dans les tâches, issues et mails';
+    }
+    return input.text
+        ? `Ajouter la tâche : <match>${escapeXml(input.text)}</match>`
+        : `Ajouter une tâche, ou « ${OMNIBOX_SEARCH_PREFIX} » pour rechercher`;
+}
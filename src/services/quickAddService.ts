@@ -0,0 +1,193 @@
+// Service for parsing natural-language quick-add input (French and English)
+// e.g. "Appeler Marc demain 14h #Travail !urgent rappel 1h"
+
+import type { Category, Priority } from './storageService';
+
+export type QuickAddField = 'startDate' | 'category' | 'priority' | 'reminders';
+
+export interface ParsedQuickAdd {
+    title: string;
+    startDate?: number;
+    categoryIds?: string[];
+    priority?: Priority;
+    reminders?: number[];
+}
+
+// Ask the quick-add bar to take the focus, pre-filled with some text (keyboard shortcut, command palette)
+export interface QuickAddRequest {
+    text: string;
+    requestedAt: number;
+}
+
+const DEFAULT_HOUR = 9;
+
+// Word boundaries that also work with accented letters
+const START = '(?<=^|\\s)';
+const END = '(?=$|\\s|[,.;])';
+// Keeps "rappel 1h" from being read as a time
+const NOT_REMINDER = '(?<!(?:rappel|remind|reminder)\\s+)';
+
+const weekdays: Record<string, number> = {
+    dimanche: 0, lundi: 1, mardi: 2, mercredi: 3, jeudi: 4, vendredi: 5, samedi: 6,
+    sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6
+};
+
+const priorityWords: Record<string, Priority> = {
+    urgent: 1, haute: 2, haut: 2, high: 2, moyenne: 3, moyen: 3, medium: 3, basse: 4, bas: 4, low: 4
+};
+
+// Lowercase and strip accents for lenient comparisons
+function normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function unitToMinutes(unit: string): number {
+    const u = normalize(unit);
+    if (u.startsWith('h')) return 60;
+    if (u.startsWith('j') || u.startsWith('d')) return 1440;
+    if (u.startsWith('s') || u.startsWith('w')) return 10080;
+    return 1;
+}
+
+// Remove the first match of a pattern and hand its groups to a callback
+function extract(input: string, pattern: RegExp, onMatch: (groups: string[]) => boolean | void): string {
+    const match = pattern.exec(input);
+    if (!match) return input;
+    if (onMatch(match.slice(1)) === false) return input;
+    return input.slice(0, match.index) + ' ' + input.slice(match.index + match[0].length);
+}
+
+// Parse a quick-add line; fields listed in `ignored` are left in the title
+export function parseQuickAdd(
+    input: string,
+    categories: Category[],
+    ignored: QuickAddField[] = [],
+    now = Date.now()
+): ParsedQuickAdd {
+    const result: ParsedQuickAdd = { title: '' };
+    let text = ` ${input} `;
+
+    // Every known #tag is taken; unknown ones stay in the title
+    if (!ignored.includes('category')) {
+        text = text.replace(new RegExp(`${START}#([^\\s#]+)${END}`, 'gu'), (match, name: string) => {
+            const category = categories.find(c => normalize(c.name) === normalize(name));
+            if (!category) return match;
+            if (!result.categoryIds?.includes(category.id)) {
+                result.categoryIds = [...(result.categoryIds ?? []), category.id];
+            }
+            return ' ';
+        });
+    }
+
+    if (!ignored.includes('priority')) {
+        text = extract(text, new RegExp(`${START}!(p?[1-4]|[a-zé]+)${END}`, 'iu'), ([value]) => {
+            const level = /^p?([1-4])$/i.exec(value);
+            const priority = level ? parseInt(level[1]) as Priority : priorityWords[normalize(value)];
+            if (!priority) return false;
+            result.priority = priority;
+        });
+    }
+
+    if (!ignored.includes('startDate')) {
+        const today = new Date(now);
+        today.setHours(0, 0, 0, 0);
+        let day: Date | undefined;
+        let hours: number | undefined;
+        let minutes = 0;
+        let timeGiven = false;
+
+        const setDay = (offset: number) => {
+            day = new Date(today);
+            day.setDate(day.getDate() + offset);
+        };
+
+        text = extract(text, new RegExp(`${START}(?:dans|in)\\s+(\\d+)\\s*(jours?|days?|semaines?|weeks?)${END}`, 'iu'), ([amount, unit]) => {
+            setDay(parseInt(amount) * (unitToMinutes(unit) / 1440));
+        });
+
+        if (!day) {
+            text = extract(text, new RegExp(`${START}(apr[eè]s[- ]demain|day after tomorrow|aujourd'hui|today|ce soir|tonight|demain|tomorrow)${END}`, 'iu'), ([word]) => {
+                const w = normalize(word);
+                if (w.startsWith('apres') || w.startsWith('day after')) {
+                    setDay(2);
+                } else if (w === 'demain' || w === 'tomorrow') {
+                    setDay(1);
+                } else {
+                    setDay(0);
+                    if (w === 'ce soir' || w === 'tonight') hours = 19;
+                }
+            });
+        }
+
+        if (!day) {
+            const names = Object.keys(weekdays).join('|');
+            text = extract(text, new RegExp(`${START}(?:(next)\\s+)?(${names})(?:\\s+(prochain))?${END}`, 'iu'), ([, name]) => {
+                const target = weekdays[name.toLowerCase()];
+                // Always the upcoming occurrence, never today
+                const offset = ((target - today.getDay() + 7) % 7) || 7;
+                setDay(offset);
+            });
+        }
+
+        if (!day) {
+            text = extract(text, new RegExp(`${START}(\\d{1,2})/(\\d{1,2})(?:/(\\d{2,4}))?${END}`, 'u'), ([d, m, y]) => {
+                const year = y ? (y.length === 2 ? 2000 + parseInt(y) : parseInt(y)) : today.getFullYear();
+                const date = new Date(year, parseInt(m) - 1, parseInt(d));
+                if (date.getDate() !== parseInt(d)) return false;
+                // A date without year that already passed means next year
+                if (!y && date < today) date.setFullYear(year + 1);
+                day = date;
+            });
+        }
+
+        text = extract(text, new RegExp(`${START}${NOT_REMINDER}(?:(?:à|a|at|vers)\\s+)?(\\d{1,2})(?:h(\\d{2})?|:(\\d{2})|\\s*(am|pm))${END}`, 'iu'), ([h, hMinutes, colonMinutes, meridiem]) => {
+            let parsedHours = parseInt(h);
+            if (meridiem) {
+                if (parsedHours > 12) return false;
+                parsedHours = (parsedHours % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+            }
+            const parsedMinutes = parseInt(hMinutes || colonMinutes || '0');
+            if (parsedHours > 23 || parsedMinutes > 59) return false;
+            hours = parsedHours;
+            minutes = parsedMinutes;
+            timeGiven = true;
+        });
+
+        if (day || hours !== undefined) {
+            const start = new Date(day || today);
+            start.setHours(hours ?? DEFAULT_HOUR, minutes, 0, 0);
+            // A time alone that already passed today means tomorrow
+            if (!day && start.getTime() <= now) {
+                start.setDate(start.getDate() + 1);
+            }
+            // A default time that already passed today ("aujourd'hui" after 9:00, "ce soir" after 19:00)
+            // becomes the next round hour, or now when that would be tomorrow
+            if (day && !timeGiven && start.getTime() <= now) {
+                start.setTime(now);
+                start.setHours(start.getHours() + 1, 0, 0, 0);
+                if (start.getDate() !== today.getDate()) {
+                    start.setTime(now);
+                    start.setSeconds(0, 0);
+                }
+            }
+            result.startDate = start.getTime();
+        }
+    }
+
+    // Reminders only make sense with a start date
+    if (!ignored.includes('reminders') && result.startDate) {
+        const reminderPattern = new RegExp(`${START}(?:rappel|remind(?:er)?)\\s+(\\d+)\\s*(minutes?|min|m|heures?|hours?|h|jours?|days?|j|d)${END}`, 'iu');
+        let previous: string;
+        do {
+            previous = text;
+            text = extract(text, reminderPattern, ([amount, unit]) => {
+                const minutes = parseInt(amount) * unitToMinutes(unit);
+                result.reminders = [...(result.reminders || []), minutes];
+            });
+        } while (text !== previous);
+    }
+
+    result.title = text.replace(/\s+/g, ' ').trim();
+
+    return result;
+}
@@ -0,0 +1,131 @@
+// Service for computing the next occurrence of recurring todos
+
+import type { Recurrence } from './storageService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ITERATIONS = 1000;
+
+const weekdayLabels = ['dim', 'lun', 'mar', 'mer', 'jeu', 'ven', 'sam'];
+const weekdayFullLabels = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
+
+// Add days while keeping the local time of day (safe across DST changes)
+function addDays(timestamp: number, days: number): number {
+    const date = new Date(timestamp);
+    date.setDate(date.getDate() + days);
+    return date.getTime();
+}
+
+// Get the Nth weekday of a month (week = -1 for the last one), keeping the time of `reference`
+function nthWeekdayOfMonth(year: number, month: number, week: number, weekday: number, reference: Date): number {
+    const date = new Date(year, month, 1, reference.getHours(), reference.getMinutes());
+
+    if (week === -1) {
+        date.setMonth(month + 1, 0); // last day of the month
+        const offset = (date.getDay() - weekday + 7) % 7;
+        date.setDate(date.getDate() - offset);
+    } else {
+        const offset = (weekday - date.getDay() + 7) % 7;
+        date.setDate(1 + offset + (week - 1) * 7);
+    }
+
+    return date.getTime();
+}
+
+// Build the monthly rule matching a date (e.g. "2nd Tuesday" or "last Friday")
+export function getMonthlyRuleFor(timestamp: number): Recurrence {
+    const date = new Date(timestamp);
+    const week = Math.ceil(date.getDate() / 7);
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    const isLast = date.getDate() + 7 > daysInMonth;
+
+    return {
+        frequency: 'monthly',
+        weekOfMonth: week === 5 || (isLast && week === 4) ? -1 : week,
+        dayOfWeek: date.getDay()
+    };
+}
+
+// Compute the next occurrence strictly after both the current occurrence and the completion time
+export function getNextOccurrence(recurrence: Recurrence, startDate: number, completedAt: number): number {
+    if (recurrence.frequency === 'afterCompletion') {
+        const reference = new Date(startDate);
+        const next = new Date(addDays(completedAt, recurrence.interval || 1));
+        next.setHours(reference.getHours(), reference.getMinutes(), 0, 0);
+        return next.getTime();
+    }
+
+    if (recurrence.frequency === 'monthly') {
+        const reference = new Date(startDate);
+        const week = recurrence.weekOfMonth ?? Math.ceil(reference.getDate() / 7);
+        const weekday = recurrence.dayOfWeek ?? reference.getDay();
+        let year = reference.getFullYear();
+        let month = reference.getMonth();
+
+        for (let i = 0; i < MAX_ITERATIONS; i++) {
+            month++;
+            if (month > 11) {
+                month = 0;
+                year++;
+            }
+            const candidate = nthWeekdayOfMonth(year, month, week, weekday, reference);
+            if (candidate > completedAt) {
+                return candidate;
+            }
+        }
+        return startDate;
+    }
+
+    const days = recurrence.frequency === 'weekly' && recurrence.daysOfWeek?.length
+        ? recurrence.daysOfWeek
+        : recurrence.frequency === 'weekly'
+            ? [new Date(startDate).getDay()]
+            : recurrence.frequency === 'weekdays'
+                ? [1, 2, 3, 4, 5]
+                : [0, 1, 2, 3, 4, 5, 6];
+
+    let candidate = startDate;
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        candidate = addDays(candidate, 1);
+        if (candidate > completedAt && days.includes(new Date(candidate).getDay())) {
+            return candidate;
+        }
+    }
+
+    return startDate + DAY_MS;
+}
+
+// Move a due date by as many calendar days as the start date moved
+export function getNextDueDate(dueDate: number, startDate: number, nextStartDate: number): number {
+    const from = new Date(startDate).setHours(0, 0, 0, 0);
+    const to = new Date(nextStartDate).setHours(0, 0, 0, 0);
+    return addDays(dueDate, Math.round((to - from) / DAY_MS));
+}
+
+// Format a recurrence rule for display
+export function formatRecurrence(recurrence: Recurrence): string {
+    switch (recurrence.frequency) {
+        case 'daily':
+            return 'Tous les jours';
+        case 'weekdays':
+            return 'En semaine';
+        case 'weekly': {
+            const days = [...(recurrence.daysOfWeek || [])]
+                .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+                .map(d => weekdayLabels[d]);
+            return days.length > 0 ? `Chaque ${days.join(', ')}` : 'Chaque semaine';
+        }
+        case 'monthly': {
+            const weekday = weekdayFullLabels[recurrence.dayOfWeek ?? 1];
+            const week = recurrence.weekOfMonth === -1
+                ? 'dernier'
+                : recurrence.weekOfMonth === 1 ? '1er' : `${recurrence.weekOfMonth}e`;
+            return `Le ${week} ${weekday} du mois`;
+        }
+        case 'afterCompletion': {
+            const interval = recurrence.interval || 1;
+            return `${interval} jour${interval > 1 ? 's' : ''} après complétion`;
+        }
+        default:
+            return '';
+    }
+}
@@ -1,11 +1,36 @@
 // Service for managing task reminders and notifications
 
+import type { Todo } from './storageService';
+
 export interface ReminderAlarm {
     todoId: string;
     reminderMinutes: number;
     scheduledTime: number;
 }
 
+// Reminders missed while the browser was closed are only notified if they were due in the last day
+const MISSED_REMINDER_WINDOW = 24 * 60 * 60 * 1000;
+
+export function getReminderAlarmName(todoId: string, reminderMinutes: number): string {
+    return `reminder_${todoId}_${reminderMinutes}`;
+}
+
+// Identifies one planned firing of a reminder, so that it is notified only once
+export function getReminderKey(reminder: ReminderAlarm): string {
+    return `${getReminderAlarmName(reminder.todoId, reminder.reminderMinutes)}@${reminder.scheduledTime}`;
+}
+
+// Reminders the todos call for, at their planned time
+export function getExpectedReminders(todos: Todo[]): ReminderAlarm[] {
+    return todos
+        .filter(todo => !todo.completed && !todo.deletedAt && todo.startDate && todo.reminders?.length)
+        .flatMap(todo => todo.reminders!.map(reminderMinutes => ({
+            todoId: todo.id,
+            reminderMinutes,
+            scheduledTime: todo.startDate! - reminderMinutes * 60 * 1000
+        })));
+}
+
 // Schedule a reminder for a todo
 export async function scheduleReminder(todoId: string, startDate: number, reminderMinutes: number) {
     const reminderTime = startDate - (reminderMinutes * 60 * 1000);
@@ -17,7 +42,7 @@ export async function scheduleReminder(todoId: string, startDate: number, remind
         return;
     }
 
-    const alarmName = `reminder_${todoId}_${reminderMinutes}`;
+    const alarmName = getReminderAlarmName(todoId, reminderMinutes);
 
     // Schedule alarm
     await chrome.alarms.create(alarmName, {
@@ -67,6 +92,15 @@ function formatReminderTime(minutes: number): string {
     }
 }
 
+// Fire a reminder again in a few minutes (postponed from its notification)
+export async function postponeReminder(alarmName: string, minutes: number) {
+    await chrome.alarms.create(alarmName, {
+        when: Date.now() + minutes * 60 * 1000
+    });
+
+    console.log(`[Reminder] Postponed ${alarmName} by ${minutes} min`);
+}
+
 // Reschedule all reminders for a todo
 export async function rescheduleReminders(todoId: string, startDate: number, reminders: number[]) {
     // Cancel existing reminders
@@ -78,6 +112,21 @@ export async function rescheduleReminders(todoId: string, startDate: number, rem
     }
 }
 
+// Clear every reminder alarm and schedule them again from a list of todos (e.g. after an import)
+export async function rebuildReminders(todos: Todo[]) {
+    const alarms = await chrome.alarms.getAll();
+    for (const alarm of alarms.filter(a => a.name.startsWith('reminder_'))) {
+        await chrome.alarms.clear(alarm.name);
+    }
+
+    for (const todo of todos) {
+        if (todo.completed || todo.deletedAt || !todo.startDate || !todo.reminders?.length) continue;
+        for (const reminderMinutes of todo.reminders) {
+            await scheduleReminder(todo.id, todo.startDate, reminderMinutes);
+        }
+    }
+}
+
 // Get upcoming reminders (for debugging/display)
 export async function getUpcomingReminders(): Promise<ReminderAlarm[]> {
     const alarms = await chrome.alarms.getAll();
@@ -98,3 +147,39 @@ export async function getUpcomingReminders(): Promise<ReminderAlarm[]> {
 
     return reminderAlarms;
 }
+
+// Bring the reminder alarms in line with the todos: create missing alarms, move those whose todo was rescheduled
+// and clear those no todo calls for anymore (deleted or completed todo, removed reminder).
+// Returns the reminders that passed without an alarm in the last day and are not among the `fired` keys;
+// with no record of fired reminders yet (`fired` null), none are.
+export async function reconcileReminders(todos: Todo[], fired: string[] | null, now = Date.now()): Promise<ReminderAlarm[]> {
+    const expected = getExpectedReminders(todos);
+    const expectedNames = new Set(expected.map(r => getReminderAlarmName(r.todoId, r.reminderMinutes)));
+    const alarms = new Map((await getUpcomingReminders()).map(a => [getReminderAlarmName(a.todoId, a.reminderMinutes), a]));
+
+    for (const name of alarms.keys()) {
+        if (!expectedNames.has(name)) {
+            await chrome.alarms.clear(name);
+            console.log(`[Reminder] Cleared orphaned ${name}`);
+        }
+    }
+
+    const missed: ReminderAlarm[] = [];
+    for (const reminder of expected) {
+        const name = getReminderAlarmName(reminder.todoId, reminder.reminderMinutes);
+        const alarm = alarms.get(name);
+
+        // A reminder past its planned time that still has an alarm was postponed from its notification: keep it
+        if (reminder.scheduledTime > now) {
+            if (alarm?.scheduledTime !== reminder.scheduledTime) {
+                await chrome.alarms.create(name, { when: reminder.scheduledTime });
+                console.log(`[Reminder] Scheduled ${name} for ${new Date(reminder.scheduledTime).toLocaleString()}`);
+            }
+        } else if (!alarm && fired && !fired.includes(getReminderKey(reminder))
+            && now - reminder.scheduledTime < MISSED_REMINDER_WINDOW) {
+            missed.push(reminder);
+        }
+    }
+
+    return missed;
+}
@@ -0,0 +1,125 @@
+// Service for due dates, smart lists (Today / Upcoming / Overdue / No date / Snoozed) and sort modes
+
+import type { Priority, Todo } from './storageService';
+
+export type SmartList = 'all' | 'today' | 'upcoming' | 'overdue' | 'nodate' | 'snoozed';
+
+export type SortMode = 'manual' | 'priority' | 'startDate' | 'createdAt' | 'category';
+
+// 'and': the todo has every selected tag, 'or': at least one
+export type TagFilterMode = 'and' | 'or';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const smartLists: { id: SmartList; label: string }[] = [
+    { id: 'all', label: 'Toutes' },
+    { id: 'today', label: "Aujourd'hui" },
+    { id: 'upcoming', label: '7 jours' },
+    { id: 'overdue', label: 'En retard' },
+    { id: 'nodate', label: 'Sans date' },
+    { id: 'snoozed', label: 'Snoozées' }
+];
+
+export const sortModes: { id: SortMode; label: string }[] = [
+    { id: 'manual', label: 'Ordre manuel' },
+    { id: 'priority', label: 'Priorité' },
+    { id: 'startDate', label: 'Date de début' },
+    { id: 'createdAt', label: 'Date de création' },
+    { id: 'category', label: 'Par label' }
+];
+
+export const tagFilterModes: { id: TagFilterMode; label: string }[] = [
+    { id: 'or', label: 'Au moins un' },
+    { id: 'and', label: 'Tous' }
+];
+
+export const priorities: { id: Priority; label: string; color: string }[] = [
+    { id: 1, label: 'P1', color: '#ef4444' },
+    { id: 2, label: 'P2', color: '#f97316' },
+    { id: 3, label: 'P3', color: '#3b82f6' },
+    { id: 4, label: 'P4', color: '#9ca3af' }
+];
+
+// Get the timestamp of the start of the day
+export function startOfDay(timestamp: number): number {
+    return new Date(timestamp).setHours(0, 0, 0, 0);
+}
+
+// A pending todo is overdue once its due day has passed
+export function isOverdue(todo: Todo, now = Date.now()): boolean {
+    return !todo.completed && todo.dueDate !== undefined && todo.dueDate < startOfDay(now);
+}
+
+// A pending todo is snoozed until its snooze time has passed
+export function isSnoozed(todo: Todo, now = Date.now()): boolean {
+    return !todo.completed && todo.snoozedUntil !== undefined && todo.snoozedUntil > now;
+}
+
+// Earliest date a todo is scheduled or due on
+function getTodoDate(todo: Todo): number | undefined {
+    const dates = [todo.startDate, todo.dueDate].filter((d): d is number => d !== undefined);
+    return dates.length > 0 ? Math.min(...dates) : undefined;
+}
+
+// Check if a todo belongs to a smart list (snoozed todos only belong to the Snoozed one)
+export function matchesSmartList(todo: Todo, list: SmartList, now = Date.now()): boolean {
+    if (list === 'snoozed') return isSnoozed(todo, now);
+    if (isSnoozed(todo, now)) return false;
+
+    const today = startOfDay(now);
+    const tomorrow = today + DAY_MS;
+
+    switch (list) {
+        case 'today':
+            return isOverdue(todo, now)
+                || [todo.startDate, todo.dueDate].some(d => d !== undefined && d >= today && d < tomorrow);
+        case 'upcoming':
+            return [todo.startDate, todo.dueDate].some(d => d !== undefined && d >= today && d < today + 7 * DAY_MS);
+        case 'overdue':
+            return isOverdue(todo, now);
+        case 'nodate':
+            return todo.startDate === undefined && todo.dueDate === undefined;
+        default:
+            return true;
+    }
+}
+
+// Sort todos for a smart list ('all' keeps the manual order)
+export function sortForSmartList(todos: Todo[], list: SmartList): Todo[] {
+    switch (list) {
+        case 'today':
+        case 'upcoming':
+            return [...todos].sort((a, b) => (getTodoDate(a) ?? Infinity) - (getTodoDate(b) ?? Infinity));
+        case 'overdue':
+            return [...todos].sort((a, b) => (a.dueDate ?? 0) - (b.dueDate ?? 0));
+        case 'nodate':
+            return [...todos].sort((a, b) => b.createdAt - a.createdAt);
+        case 'snoozed':
+            return [...todos].sort((a, b) => (a.snoozedUntil ?? 0) - (b.snoozedUntil ?? 0));
+        default:
+            return todos;
+    }
+}
+
+// Whether a todo matches the selected tags (no selection matches everything)
+export function matchesTagFilter(todo: Todo, tagIds: string[], mode: TagFilterMode): boolean {
+    if (tagIds.length === 0) return true;
+    const todoTags = todo.categoryIds ?? [];
+    return mode === 'and'
+        ? tagIds.every(id => todoTags.includes(id))
+        : tagIds.some(id => todoTags.includes(id));
+}
+
+// Sort todos by a sort mode ('manual' and 'category' keep the current order)
+export function sortTodos(todos: Todo[], mode: SortMode): Todo[] {
+    switch (mode) {
+        case 'priority':
+            return [...todos].sort((a, b) => (a.priority ?? 4) - (b.priority ?? 4));
+        case 'startDate':
+            return [...todos].sort((a, b) => (a.startDate ?? Infinity) - (b.startDate ?? Infinity));
+        case 'createdAt':
+            return [...todos].sort((a, b) => b.createdAt - a.createdAt);
+        default:
+            return todos;
+    }
+}
@@ -0,0 +1,47 @@
+// Service for snoozing todos: hidden from the lists until a later time, then brought back by a background alarm
+
+import type { Todo } from './storageService';
+
+export type SnoozePreset = 'tonight' | 'tomorrowMorning' | 'monday';
+
+export const SNOOZE_ALARM_PREFIX = 'snooze_';
+
+const EVENING_HOUR = 18;
+const MORNING_HOUR = 9;
+
+export const snoozePresets: { id: SnoozePreset; label: string }[] = [
+    { id: 'tonight', label: 'Ce soir' },
+    { id: 'tomorrowMorning', label: 'Demain matin' },
+    { id: 'monday', label: 'Lundi' }
+];
+
+// End of a preset snooze; "ce soir" asked during the evening means tomorrow evening
+export function getSnoozeTime(preset: SnoozePreset, now = Date.now()): number {
+    const date = new Date(now);
+    switch (preset) {
+        case 'tonight':
+            date.setHours(EVENING_HOUR, 0, 0, 0);
+            if (date.getTime() <= now) date.setDate(date.getDate() + 1);
+            break;
+        case 'tomorrowMorning':
+            date.setDate(date.getDate() + 1);
+            date.setHours(MORNING_HOUR, 0, 0, 0);
+            break;
+        case 'monday':
+            // Next Monday, a week later when today is Monday
+            date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+            date.setHours(MORNING_HOUR, 0, 0, 0);
+            break;
+    }
+    return date.getTime();
+}
+
+export function getSnoozeAlarmName(todoId: string): string {
+    return `${SNOOZE_ALARM_PREFIX}${todoId}`;
+}
+
+// Todos whose snooze was set, moved or lifted by a change
+export function getSnoozeChanges(previous: Todo[], current: Todo[]): Todo[] {
+    const previousById = new Map(previous.map(t => [t.id, t]));
+    return current.filter(todo => previousById.get(todo.id)?.snoozedUntil !== todo.snoozedUntil);
+}
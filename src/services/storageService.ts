@@ -1,21 +1,131 @@
+import { getNextDueDate, getNextOccurrence } from './recurrenceService';
+import { rescheduleReminders, cancelReminders } from './reminderService';
+import { assertNoDependencyCycle } from './dependencyService';
+import type { GitHubIssue } from './githubService';
+import type { GmailEmail } from './gmailService';
+
 // Types for storage
 export interface Category {
     id: string;
     name: string;
     color: string;
+    deletedAt?: number; // set while the category is in the trash
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'afterCompletion';
+
+export interface Recurrence {
+    frequency: RecurrenceFrequency;
+    daysOfWeek?: number[]; // weekly: 0 (Sunday) to 6 (Saturday)
+    weekOfMonth?: number; // monthly: 1 to 4, or -1 for the last week
+    dayOfWeek?: number; // monthly: 0 (Sunday) to 6 (Saturday)
+    interval?: number; // afterCompletion: number of days
+}
+
+export interface TodoList {
+    id: string;
+    name: string;
+    archived: boolean;
+    createdAt: number;
+}
+
+// Kanban column; the last column is the terminal one (todos there are completed)
+export interface BoardColumn {
+    id: string;
+    name: string;
+    color: string;
+}
+
+export type Priority = 1 | 2 | 3 | 4; // P1 (highest) to P4 (none)
+
+export interface Subtask {
+    id: string;
+    title: string;
+    completed: boolean;
 }
 
 export interface Todo {
     id: string;
     title: string;
     comment?: string;
-    categoryId?: string;
+    link?: string; // URL of the page the todo is about
+    listId: string;
+    categoryIds?: string[]; // tags (category ids)
+    categoryId?: string; // single label of older versions, migrated to categoryIds on read
     completed: boolean;
+    completedAt?: number; // timestamp of the last completion
+    priority?: Priority;
     createdAt: number;
     startDate?: number; // timestamp in milliseconds
+    dueDate?: number; // timestamp in milliseconds (start of the due day)
     reminders?: number[]; // array of minutes before (e.g., [15, 60, 1440])
+    recurrence?: Recurrence;
+    nextOccurrenceId?: string; // set on a completed recurring todo: the occurrence its completion created
+    subtasks?: Subtask[]; // ordered checklist
+    status?: string; // board column id, derived from `completed` when missing
+    blockedBy?: string[]; // ids of the todos this one depends on
+    snoozedUntil?: number; // hidden from the lists until this timestamp
+    deletedAt?: number; // set while the todo is in the trash
 }
 
+// Time spent on a todo, recorded when its timer is stopped
+export interface TimeEntry {
+    id: string;
+    todoId: string;
+    start: number;
+    end: number;
+    duration: number; // milliseconds
+}
+
+// Timer currently running (owned by the background worker)
+export interface ActiveTimer {
+    todoId: string;
+    start: number;
+}
+
+// Work and break lengths of the focus timer, in minutes
+export interface FocusSettings {
+    workMinutes: number;
+    breakMinutes: number;
+}
+
+export type FocusPhase = 'work' | 'break';
+
+// Focus session currently running (owned by the background worker)
+export interface FocusSession {
+    todoId: string;
+    phase: FocusPhase;
+    phaseStart: number;
+    phaseEnd: number;
+    completedPomodoros: number;
+}
+
+// A completed work phase, logged against its todo
+export interface Pomodoro {
+    id: string;
+    todoId: string;
+    start: number;
+    end: number;
+}
+
+// Item the side panel should show when it opens (set from outside the panel, e.g. the omnibox)
+export interface PanelFocus {
+    type: 'todo' | 'issue' | 'email';
+    id: string;
+}
+
+// Action the side panel should run when it opens (set from keyboard shortcuts)
+export type PanelAction = 'quickAdd';
+
+// Optional fields accepted when creating a todo
+export type TodoDetails = Partial<Omit<Todo, 'id' | 'title' | 'completed' | 'createdAt'>>;
+
+export const INBOX_LIST_ID = 'inbox';
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DEFAULT_ARCHIVE_AFTER_DAYS = 7;
+const DEFAULT_FOCUS_SETTINGS: FocusSettings = { workMinutes: 25, breakMinutes: 5 };
+
 export interface GitHubSettings {
     token: string;
     repo: string;
@@ -31,7 +141,9 @@ export type Theme = 'light' | 'dark' | 'system';
 
 export interface StorageData {
     todos: Todo[];
+    todoLists: TodoList[];
     categories: Category[];
+    boardColumns: BoardColumn[];
     githubSettings: GitHubSettings;
     theme: Theme;
 }
@@ -44,6 +156,19 @@ const defaultCategories: Category[] = [
     { id: 'ideas', name: 'Idées', color: '#f59e0b' },
 ];
 
+// Default lists
+const defaultTodoLists: TodoList[] = [
+    { id: INBOX_LIST_ID, name: 'Inbox', archived: false, createdAt: 0 },
+];
+
+// Default board columns
+const defaultBoardColumns: BoardColumn[] = [
+    { id: 'todo', name: 'À faire', color: '#9ca3af' },
+    { id: 'doing', name: 'En cours', color: '#3b82f6' },
+    { id: 'blocked', name: 'Bloqué', color: '#ef4444' },
+    { id: 'done', name: 'Fait', color: '#10b981' },
+];
+
 // Default values
 const defaultGitHubSettings: GitHubSettings = {
     token: '',
@@ -54,15 +179,27 @@ const defaultGitHubSettings: GitHubSettings = {
 // Check if chrome.storage is available (for development)
 const isExtension = typeof chrome !== 'undefined' && chrome.storage;
 
+// Todos created before lists existed belong to the Inbox; single labels become tag sets
+function migrateTodos(todos: Todo[]): Todo[] {
+    return todos.map(t => {
+        let todo = t.listId ? t : { ...t, listId: INBOX_LIST_ID };
+        if (todo.categoryId !== undefined) {
+            const { categoryId, ...rest } = todo;
+            todo = { ...rest, categoryIds: rest.categoryIds ?? (categoryId ? [categoryId] : undefined) };
+        }
+        return todo;
+    });
+}
+
 // Get todos from storage
 export async function getTodos(): Promise<Todo[]> {
     if (!isExtension) {
         const stored = localStorage.getItem('todos');
-        return stored ? JSON.parse(stored) : [];
+        return stored ? migrateTodos(JSON.parse(stored)) : [];
     }
 
     const result = await chrome.storage.local.get('todos') as { todos?: Todo[] };
-    return result.todos || [];
+    return migrateTodos(result.todos || []);
 }
 
 // Save todos to storage
@@ -76,26 +213,27 @@ export async function saveTodos(todos: Todo[]): Promise<void> {
 }
 
 // Add a new todo
-export async function addTodo(title: string, categoryId?: string, comment?: string, startDate?: number, reminders?: number[]): Promise<Todo> {
+export async function addTodo(title: string, details: TodoDetails = {}): Promise<Todo> {
     const todos = await getTodos();
     const newTodo: Todo = {
+        listId: INBOX_LIST_ID,
+        ...details,
         id: crypto.randomUUID(),
         title,
-        comment,
-        categoryId,
         completed: false,
-        createdAt: Date.now(),
-        startDate,
-        reminders
+        createdAt: Date.now()
     };
     todos.push(newTodo);
     await saveTodos(todos);
     return newTodo;
 }
 
-// Update a todo
+// Update a todo (throws when the new dependencies would create a cycle)
 export async function updateTodo(id: string, updates: Partial<Omit<Todo, 'id' | 'createdAt'>>): Promise<void> {
     const todos = await getTodos();
+    if (updates.blockedBy?.length) {
+        assertNoDependencyCycle(id, updates.blockedBy, todos);
+    }
     const index = todos.findIndex(t => t.id === id);
     if (index !== -1) {
         todos[index] = { ...todos[index], ...updates };
@@ -103,21 +241,255 @@ export async function updateTodo(id: string, updates: Partial<Omit<Todo, 'id' |
     }
 }
 
-// Toggle todo completion
-export async function toggleTodo(id: string): Promise<void> {
-    const todos = await getTodos();
+// Next occurrence of a recurring todo completed at `completedAt`, if it has one
+function buildNextOccurrence(todo: Todo, completedAt: number): Todo | undefined {
+    // "N days after completion" needs no start date: an undated todo counts from the day it was completed
+    const baseDate = todo.startDate ?? (todo.recurrence?.frequency === 'afterCompletion' ? new Date(completedAt).setHours(0, 0, 0, 0) : undefined);
+    if (!todo.recurrence || baseDate === undefined) return;
+
+    const nextStartDate = getNextOccurrence(todo.recurrence, baseDate, completedAt);
+    const nextTodo: Todo = {
+        ...todo,
+        id: crypto.randomUUID(),
+        completed: false,
+        completedAt: undefined,
+        createdAt: completedAt,
+        startDate: nextStartDate,
+        dueDate: todo.dueDate !== undefined ? getNextDueDate(todo.dueDate, baseDate, nextStartDate) : undefined,
+        subtasks: todo.subtasks?.map(s => ({ ...s, id: crypto.randomUUID(), completed: false }))
+    };
+    delete nextTodo.nextOccurrenceId;
+    return nextTodo;
+}
+
+// Whether two todos hold the same content, ids and creation time aside
+function isSameOccurrence(a: Todo, b: Todo): boolean {
+    const content = (todo: Todo) => {
+        const fields: Record<string, unknown> = { ...todo, id: '', createdAt: 0, subtasks: todo.subtasks?.map(s => ({ ...s, id: '' })) };
+        // Keys set to undefined are not stored, so they are left out
+        return JSON.stringify(Object.keys(fields).filter(key => fields[key] !== undefined).sort().map(key => [key, fields[key]]));
+    };
+    return content(a) === content(b);
+}
+
+// Toggle todo completion, returning the next occurrence when a recurring todo is completed. Reopening a
+// completed occurrence takes the series back from the occurrence it created, as long as that one is untouched.
+export async function toggleTodo(id: string, completeSubtasks = false): Promise<Todo | undefined> {
+    let todos = await getTodos();
     const todo = todos.find(t => t.id === id);
-    if (todo) {
-        todo.completed = !todo.completed;
-        await saveTodos(todos);
+    if (!todo) return;
+
+    const now = Date.now();
+    const previousCompletedAt = todo.completedAt;
+    todo.completed = !todo.completed;
+    todo.completedAt = todo.completed ? now : undefined;
+    // The board column follows the new completion state, and a completed todo is no longer snoozed
+    delete todo.status;
+    if (todo.completed) {
+        delete todo.snoozedUntil;
+    }
+
+    if (todo.completed && completeSubtasks && todo.subtasks) {
+        todo.subtasks = todo.subtasks.map(s => ({ ...s, completed: true }));
+    }
+
+    let nextTodo: Todo | undefined;
+    let removedTodo: Todo | undefined;
+    if (todo.completed) {
+        nextTodo = buildNextOccurrence(todo, now);
+        if (nextTodo) {
+            // The series continues on the new occurrence
+            delete todo.recurrence;
+            todo.nextOccurrenceId = nextTodo.id;
+            todos.push(nextTodo);
+        }
+    } else if (todo.nextOccurrenceId) {
+        const next = todos.find(t => t.id === todo.nextOccurrenceId);
+        delete todo.nextOccurrenceId;
+        const expected = next && previousCompletedAt !== undefined
+            ? buildNextOccurrence({ ...todo, recurrence: next.recurrence }, previousCompletedAt)
+            : undefined;
+        if (next && expected && !next.completed && !next.deletedAt && isSameOccurrence(next, expected)) {
+            todo.recurrence = next.recurrence;
+            todos = todos.filter(t => t.id !== next.id);
+            removedTodo = next;
+        }
+    }
+
+    await saveTodos(todos);
+
+    if (isExtension && nextTodo?.startDate && nextTodo.reminders?.length) {
+        await rescheduleReminders(nextTodo.id, nextTodo.startDate, nextTodo.reminders);
+    }
+    if (isExtension && removedTodo) {
+        await cancelReminders(removedTodo.id);
     }
+
+    return nextTodo;
 }
 
-// Delete a todo
+// Delete a todo (moved to the trash)
 export async function deleteTodo(id: string): Promise<void> {
+    await updateTodo(id, { deletedAt: Date.now() });
+}
+
+// Restore a todo from the trash, along with its category and reminders
+export async function restoreTodo(id: string): Promise<Todo | undefined> {
+    const todos = await getTodos();
+    const todo = todos.find(t => t.id === id);
+    if (!todo) return;
+
+    delete todo.deletedAt;
+    await saveTodos(todos);
+
+    // Tags trashed since come back with the todo
+    if (todo.categoryIds?.length) {
+        const categories = await getCategories();
+        for (const category of categories.filter(c => c.deletedAt && todo.categoryIds!.includes(c.id))) {
+            await restoreCategory(category.id);
+        }
+    }
+
+    if (isExtension && !todo.completed && todo.startDate && todo.reminders?.length) {
+        await rescheduleReminders(todo.id, todo.startDate, todo.reminders);
+    }
+
+    return todo;
+}
+
+// Move a todo to a new start date, shifting its due date and reminders along
+export async function rescheduleTodo(id: string, startDate: number): Promise<Todo | undefined> {
+    const todos = await getTodos();
+    const todo = todos.find(t => t.id === id);
+    if (!todo) return;
+
+    if (todo.dueDate !== undefined && todo.startDate !== undefined) {
+        todo.dueDate = getNextDueDate(todo.dueDate, todo.startDate, startDate);
+    }
+    todo.startDate = startDate;
+    await saveTodos(todos);
+
+    if (isExtension && !todo.completed && todo.reminders?.length) {
+        await rescheduleReminders(todo.id, startDate, todo.reminders);
+    }
+
+    return todo;
+}
+
+// Move a todo to a board column, completing or reopening it when it enters or leaves the terminal column
+export async function moveTodoToStatus(id: string, status: string): Promise<Todo | undefined> {
+    const [todos, columns] = await Promise.all([getTodos(), getBoardColumns()]);
+    const todo = todos.find(t => t.id === id);
+    if (!todo) return;
+
+    let nextTodo: Todo | undefined;
+    if ((status === columns[columns.length - 1]?.id) !== todo.completed) {
+        nextTodo = await toggleTodo(id);
+        if (isExtension && !todo.completed) {
+            await cancelReminders(id);
+        }
+    }
+    await updateTodo(id, { status });
+
+    return nextTodo;
+}
+
+// Move a todo to another list
+export async function moveTodoToList(id: string, listId: string): Promise<void> {
+    await updateTodo(id, { listId });
+}
+
+// Column of a todo on the board; todos without a known status go to the first or terminal column
+export function getTodoStatus(todo: Todo, columns: BoardColumn[]): string {
+    if (todo.status && columns.some(c => c.id === todo.status)) {
+        const isTerminal = todo.status === columns[columns.length - 1].id;
+        if (isTerminal === todo.completed) return todo.status;
+    }
+    return (todo.completed ? columns[columns.length - 1] : columns[0]).id;
+}
+
+// Tags of a todo that still exist (trashed categories are hidden)
+export function getTodoCategories(todo: Todo, categories: Category[]): Category[] {
+    return (todo.categoryIds ?? [])
+        .map(id => categories.find(c => c.id === id && !c.deletedAt))
+        .filter((c): c is Category => !!c);
+}
+
+// Get board columns
+export async function getBoardColumns(): Promise<BoardColumn[]> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('boardColumns');
+        return stored ? JSON.parse(stored) : defaultBoardColumns;
+    }
+
+    const result = await chrome.storage.local.get('boardColumns') as { boardColumns?: BoardColumn[] };
+    return result.boardColumns || defaultBoardColumns;
+}
+
+// Save board columns
+export async function saveBoardColumns(boardColumns: BoardColumn[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('boardColumns', JSON.stringify(boardColumns));
+        return;
+    }
+
+    await chrome.storage.local.set({ boardColumns });
+}
+
+// Get todo lists
+export async function getTodoLists(): Promise<TodoList[]> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('todoLists');
+        return stored ? JSON.parse(stored) : defaultTodoLists;
+    }
+
+    const result = await chrome.storage.local.get('todoLists') as { todoLists?: TodoList[] };
+    return result.todoLists || defaultTodoLists;
+}
+
+// Save todo lists
+export async function saveTodoLists(todoLists: TodoList[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('todoLists', JSON.stringify(todoLists));
+        return;
+    }
+
+    await chrome.storage.local.set({ todoLists });
+}
+
+// Add a new todo list
+export async function addTodoList(name: string): Promise<TodoList> {
+    const todoLists = await getTodoLists();
+    const newList: TodoList = {
+        id: crypto.randomUUID(),
+        name,
+        archived: false,
+        createdAt: Date.now()
+    };
+    todoLists.push(newList);
+    await saveTodoLists(todoLists);
+    return newList;
+}
+
+// Update a todo list
+export async function updateTodoList(id: string, updates: Partial<Omit<TodoList, 'id' | 'createdAt'>>): Promise<void> {
+    const todoLists = await getTodoLists();
+    const index = todoLists.findIndex(l => l.id === id);
+    if (index !== -1) {
+        todoLists[index] = { ...todoLists[index], ...updates };
+        await saveTodoLists(todoLists);
+    }
+}
+
+// Delete a todo list, moving its todos back to the Inbox
+export async function deleteTodoList(id: string): Promise<void> {
+    if (id === INBOX_LIST_ID) return;
+
+    const todoLists = await getTodoLists();
+    await saveTodoLists(todoLists.filter(l => l.id !== id));
+
     const todos = await getTodos();
-    const filtered = todos.filter(t => t.id !== id);
-    await saveTodos(filtered);
+    await saveTodos(todos.map(t => t.listId === id ? { ...t, listId: INBOX_LIST_ID } : t));
 }
 
 // Get categories
@@ -164,11 +536,254 @@ export async function updateCategory(id: string, updates: Partial<Omit<Category,
     }
 }
 
-// Delete a category
+// Delete a category (moved to the trash, todos keep its id in their tags until it is purged)
 export async function deleteCategory(id: string): Promise<void> {
+    await updateCategory(id, { deletedAt: Date.now() });
+}
+
+// Restore a category from the trash
+export async function restoreCategory(id: string): Promise<void> {
     const categories = await getCategories();
-    const filtered = categories.filter(c => c.id !== id);
-    await saveCategories(filtered);
+    const category = categories.find(c => c.id === id);
+    if (category) {
+        delete category.deletedAt;
+        await saveCategories(categories);
+    }
+}
+
+// Permanently remove trashed items deleted before a given time
+async function purgeDeletedBefore(before: number): Promise<void> {
+    const [todos, categories] = await Promise.all([getTodos(), getCategories()]);
+    const isExpired = (item: { deletedAt?: number }) => item.deletedAt !== undefined && item.deletedAt < before;
+
+    const purgedCategoryIds = categories.filter(isExpired).map(c => c.id);
+    const keptTodos = todos
+        .filter(t => !isExpired(t))
+        .map(t => t.categoryIds?.some(id => purgedCategoryIds.includes(id))
+            ? { ...t, categoryIds: t.categoryIds.filter(id => !purgedCategoryIds.includes(id)) }
+            : t);
+
+    await saveTodos(keptTodos);
+    await saveCategories(categories.filter(c => !isExpired(c)));
+}
+
+// Empty the trash
+export async function emptyTrash(): Promise<void> {
+    await purgeDeletedBefore(Infinity);
+}
+
+// Purge trashed items older than the retention period
+export async function purgeExpiredTrash(): Promise<void> {
+    const retentionDays = await getTrashRetentionDays();
+    await purgeDeletedBefore(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// Get archived todos
+export async function getArchivedTodos(): Promise<Todo[]> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('archivedTodos');
+        return stored ? migrateTodos(JSON.parse(stored)) : [];
+    }
+
+    const result = await chrome.storage.local.get('archivedTodos') as { archivedTodos?: Todo[] };
+    return migrateTodos(result.archivedTodos || []);
+}
+
+// Save archived todos
+export async function saveArchivedTodos(archivedTodos: Todo[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('archivedTodos', JSON.stringify(archivedTodos));
+        return;
+    }
+
+    await chrome.storage.local.set({ archivedTodos });
+}
+
+// Get recorded time entries
+export async function getTimeEntries(): Promise<TimeEntry[]> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('timeEntries');
+        return stored ? JSON.parse(stored) : [];
+    }
+
+    const result = await chrome.storage.local.get('timeEntries') as { timeEntries?: TimeEntry[] };
+    return result.timeEntries || [];
+}
+
+// Save time entries
+export async function saveTimeEntries(timeEntries: TimeEntry[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('timeEntries', JSON.stringify(timeEntries));
+        return;
+    }
+
+    await chrome.storage.local.set({ timeEntries });
+}
+
+// Get the running timer, if any
+export async function getActiveTimer(): Promise<ActiveTimer | null> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('activeTimer');
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    const result = await chrome.storage.local.get('activeTimer') as { activeTimer?: ActiveTimer | null };
+    return result.activeTimer || null;
+}
+
+// Save the running timer (null when stopped)
+export async function saveActiveTimer(activeTimer: ActiveTimer | null): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('activeTimer', JSON.stringify(activeTimer));
+        return;
+    }
+
+    await chrome.storage.local.set({ activeTimer });
+}
+
+// Get focus timer lengths
+export async function getFocusSettings(): Promise<FocusSettings> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('focusSettings');
+        return stored ? { ...DEFAULT_FOCUS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_FOCUS_SETTINGS;
+    }
+
+    const result = await chrome.storage.local.get('focusSettings') as { focusSettings?: FocusSettings };
+    return { ...DEFAULT_FOCUS_SETTINGS, ...result.focusSettings };
+}
+
+// Save focus timer lengths
+export async function saveFocusSettings(focusSettings: FocusSettings): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('focusSettings', JSON.stringify(focusSettings));
+        return;
+    }
+
+    await chrome.storage.local.set({ focusSettings });
+}
+
+// Get the running focus session, if any
+export async function getFocusSession(): Promise<FocusSession | null> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('focusSession');
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    const result = await chrome.storage.local.get('focusSession') as { focusSession?: FocusSession | null };
+    return result.focusSession || null;
+}
+
+// Save the running focus session (null when stopped)
+export async function saveFocusSession(focusSession: FocusSession | null): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('focusSession', JSON.stringify(focusSession));
+        return;
+    }
+
+    await chrome.storage.local.set({ focusSession });
+}
+
+// Get all completed pomodoros
+export async function getPomodoros(): Promise<Pomodoro[]> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('pomodoros');
+        return stored ? JSON.parse(stored) : [];
+    }
+
+    const result = await chrome.storage.local.get('pomodoros') as { pomodoros?: Pomodoro[] };
+    return result.pomodoros || [];
+}
+
+// Save completed pomodoros
+export async function savePomodoros(pomodoros: Pomodoro[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('pomodoros', JSON.stringify(pomodoros));
+        return;
+    }
+
+    await chrome.storage.local.set({ pomodoros });
+}
+
+// Move todos completed more than N days ago to the archive, returning how many were moved
+export async function archiveCompletedTodos(): Promise<number> {
+    const archiveAfterDays = await getArchiveAfterDays();
+    const threshold = Date.now() - archiveAfterDays * 24 * 60 * 60 * 1000;
+
+    const todos = await getTodos();
+    // Todos completed before completion times were tracked fall back to their creation time
+    const isExpired = (t: Todo) => t.completed && !t.deletedAt && (t.completedAt ?? t.createdAt) < threshold;
+    const expired = todos.filter(isExpired);
+    if (expired.length === 0) return 0;
+
+    const archivedTodos = await getArchivedTodos();
+    await saveArchivedTodos([
+        ...archivedTodos,
+        ...expired.map(t => ({ ...t, completedAt: t.completedAt ?? t.createdAt }))
+    ]);
+    await saveTodos(todos.filter(t => !isExpired(t)));
+
+    return expired.length;
+}
+
+// Reopen an archived todo, moving it back to the active todos
+export async function reopenArchivedTodo(id: string): Promise<Todo | undefined> {
+    const archivedTodos = await getArchivedTodos();
+    const archived = archivedTodos.find(t => t.id === id);
+    if (!archived) return;
+
+    const todo: Todo = { ...archived, completed: false, completedAt: undefined };
+    const todos = await getTodos();
+    todos.push(todo);
+    await saveTodos(todos);
+    await saveArchivedTodos(archivedTodos.filter(t => t.id !== id));
+
+    if (isExtension && todo.startDate && todo.reminders?.length) {
+        await rescheduleReminders(todo.id, todo.startDate, todo.reminders);
+    }
+
+    return todo;
+}
+
+// Get the number of days after which completed todos are archived
+export async function getArchiveAfterDays(): Promise<number> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('archiveAfterDays');
+        return stored ? parseInt(stored) : DEFAULT_ARCHIVE_AFTER_DAYS;
+    }
+
+    const result = await chrome.storage.local.get('archiveAfterDays') as { archiveAfterDays?: number };
+    return result.archiveAfterDays || DEFAULT_ARCHIVE_AFTER_DAYS;
+}
+
+// Save the number of days after which completed todos are archived
+export async function saveArchiveAfterDays(archiveAfterDays: number): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('archiveAfterDays', String(archiveAfterDays));
+        return;
+    }
+
+    await chrome.storage.local.set({ archiveAfterDays });
+}
+
+// Get trash retention period (in days)
+export async function getTrashRetentionDays(): Promise<number> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('trashRetentionDays');
+        return stored ? parseInt(stored) : DEFAULT_TRASH_RETENTION_DAYS;
+    }
+
+    const result = await chrome.storage.local.get('trashRetentionDays') as { trashRetentionDays?: number };
+    return result.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// Save trash retention period (in days)
+export async function saveTrashRetentionDays(trashRetentionDays: number): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('trashRetentionDays', String(trashRetentionDays));
+        return;
+    }
+
+    await chrome.storage.local.set({ trashRetentionDays });
 }
 
 // Get theme
@@ -212,3 +827,108 @@ export async function saveGitHubSettings(settings: GitHubSettings): Promise<void
 
     await chrome.storage.local.set({ githubSettings: settings });
 }
+
+// Get the GitHub issues from the last fetch
+export async function getFetchedIssues(): Promise<GitHubIssue[]> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('fetchedIssues');
+        return stored ? JSON.parse(stored) : [];
+    }
+
+    const result = await chrome.storage.local.get('fetchedIssues') as { fetchedIssues?: GitHubIssue[] };
+    return result.fetchedIssues || [];
+}
+
+// Save the GitHub issues from the last fetch
+export async function saveFetchedIssues(fetchedIssues: GitHubIssue[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('fetchedIssues', JSON.stringify(fetchedIssues));
+        return;
+    }
+
+    await chrome.storage.local.set({ fetchedIssues });
+}
+
+// Get the emails from the last fetch
+export async function getFetchedEmails(): Promise<GmailEmail[]> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('fetchedEmails');
+        return stored ? JSON.parse(stored) : [];
+    }
+
+    const result = await chrome.storage.local.get('fetchedEmails') as { fetchedEmails?: GmailEmail[] };
+    return result.fetchedEmails || [];
+}
+
+// Save the emails from the last fetch
+export async function saveFetchedEmails(fetchedEmails: GmailEmail[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('fetchedEmails', JSON.stringify(fetchedEmails));
+        return;
+    }
+
+    await chrome.storage.local.set({ fetchedEmails });
+}
+
+// Get the item the side panel should show, if any
+export async function getPanelFocus(): Promise<PanelFocus | null> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('panelFocus');
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    const result = await chrome.storage.local.get('panelFocus') as { panelFocus?: PanelFocus | null };
+    return result.panelFocus || null;
+}
+
+// Ask the side panel to show an item (null once it has been shown)
+export async function savePanelFocus(panelFocus: PanelFocus | null): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('panelFocus', JSON.stringify(panelFocus));
+        return;
+    }
+
+    await chrome.storage.local.set({ panelFocus });
+}
+
+// Get the action the side panel should run, if any
+export async function getPanelAction(): Promise<PanelAction | null> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('panelAction');
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    const result = await chrome.storage.local.get('panelAction') as { panelAction?: PanelAction | null };
+    return result.panelAction || null;
+}
+
+// Ask the side panel to run an action (null once it has run)
+export async function savePanelAction(panelAction: PanelAction | null): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('panelAction', JSON.stringify(panelAction));
+        return;
+    }
+
+    await chrome.storage.local.set({ panelAction });
+}
+
+// Get the keys of the reminders already notified (null before the first reminder check)
+export async function getFiredReminders(): Promise<string[] | null> {
+    if (!isExtension) {
+        const stored = localStorage.getItem('firedReminders');
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    const result = await chrome.storage.local.get('firedReminders') as { firedReminders?: string[] };
+    return result.firedReminders || null;
+}
+
+// Save the keys of the reminders already notified
+export async function saveFiredReminders(firedReminders: string[]): Promise<void> {
+    if (!isExtension) {
+        localStorage.setItem('firedReminders', JSON.stringify(firedReminders));
+        return;
+    }
+
+    await chrome.storage.local.set({ firedReminders });
+}
@@ -0,0 +1,40 @@
+// Service for reading the browser's active tab and showing page favicons
+
+export interface TabInfo {
+    title: string;
+    url: string;
+}
+
+const isExtension = typeof chrome !== 'undefined' && chrome.tabs;
+
+// Title and URL of the active tab of the current window
+export async function getActiveTab(): Promise<TabInfo | null> {
+    if (!isExtension) {
+        return { title: document.title, url: window.location.href };
+    }
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.url) return null;
+    return { title: tab.title?.trim() || tab.url, url: tab.url };
+}
+
+// Favicon of a page, served by the browser's cache when running as an extension
+export function getFaviconUrl(pageUrl: string, size = 16): string {
+    if (typeof chrome !== 'undefined' && chrome.runtime?.id) {
+        return chrome.runtime.getURL(`/_favicon/?pageUrl=${encodeURIComponent(pageUrl)}&size=${size}`);
+    }
+    try {
+        return `${new URL(pageUrl).origin}/favicon.ico`;
+    } catch {
+        return '';
+    }
+}
+
+// Host name shown next to a link
+export function getLinkHost(pageUrl: string): string {
+    try {
+        return new URL(pageUrl).hostname.replace(/^www\./, '');
+    } catch {
+        return pageUrl;
+    }
+}
@@ -0,0 +1,175 @@
+// Service for per-todo time tracking: timers owned by the background worker, time entries and reports
+
+import type { ActiveTimer, Category, TimeEntry, Todo } from './storageService';
+import { getActiveTimer, saveActiveTimer, getTimeEntries, saveTimeEntries, getTodoCategories } from './storageService';
+import { startOfDay } from './smartListService';
+import { startOfWeek } from './agendaService';
+
+export type TimerMessage =
+    | { type: 'startTimer'; todoId: string }
+    | { type: 'stopTimer' };
+
+export type ReportRange = 'week' | 'month' | 'last30' | 'custom';
+
+export interface CategoryTotal {
+    categoryId: string; // '' for todos without a label
+    name: string;
+    color: string;
+    duration: number;
+}
+
+export interface DayTotal {
+    day: number; // start of day
+    duration: number;
+}
+
+export interface TimeReport {
+    total: number;
+    byCategory: CategoryTotal[];
+    byDay: DayTotal[];
+}
+
+export const reportRanges: { id: ReportRange; label: string }[] = [
+    { id: 'week', label: 'Cette semaine' },
+    { id: 'month', label: 'Ce mois' },
+    { id: 'last30', label: '30 derniers jours' },
+    { id: 'custom', label: 'Personnalisé' }
+];
+
+const isExtension = typeof chrome !== 'undefined' && chrome.runtime?.id;
+
+// Stop the running timer and record its entry
+export async function endTimer(now = Date.now()): Promise<TimeEntry | undefined> {
+    const timer = await getActiveTimer();
+    if (!timer) return;
+
+    const entry: TimeEntry = {
+        id: crypto.randomUUID(),
+        todoId: timer.todoId,
+        start: timer.start,
+        end: now,
+        duration: Math.max(0, now - timer.start)
+    };
+    const entries = await getTimeEntries();
+    await saveTimeEntries([...entries, entry]);
+    await saveActiveTimer(null);
+
+    return entry;
+}
+
+// Start a timer on a todo, stopping the one already running
+export async function beginTimer(todoId: string, now = Date.now()): Promise<ActiveTimer> {
+    await endTimer(now);
+    const timer = { todoId, start: now };
+    await saveActiveTimer(timer);
+    return timer;
+}
+
+// Ask the background worker to start a timer (it keeps running when the panel closes)
+export async function startTimer(todoId: string): Promise<void> {
+    if (!isExtension) {
+        await beginTimer(todoId);
+        return;
+    }
+    await chrome.runtime.sendMessage({ type: 'startTimer', todoId } satisfies TimerMessage);
+}
+
+// Ask the background worker to stop the running timer
+export async function stopTimer(): Promise<void> {
+    if (!isExtension) {
+        await endTimer();
+        return;
+    }
+    await chrome.runtime.sendMessage({ type: 'stopTimer' } satisfies TimerMessage);
+}
+
+// Short elapsed time for the action badge (at most 4 characters)
+export function formatBadgeTime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 10 ? `${hours}h${String(minutes % 60).padStart(2, '0')}` : `${hours}h`;
+}
+
+// Human-readable duration
+export function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Bounds of a preset report range, as [from, to) timestamps
+export function getReportBounds(range: ReportRange, now = Date.now()): [number, number] {
+    const today = new Date(startOfDay(now));
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    if (range === 'week') return [startOfWeek(now), tomorrow.getTime()];
+
+    const from = new Date(today);
+    if (range === 'month') {
+        from.setDate(1);
+    } else {
+        from.setDate(from.getDate() - 29);
+    }
+    return [from.getTime(), tomorrow.getTime()];
+}
+
+// Sum entries (and the running timer) per tag and per day within [from, to); entries spanning midnight are split.
+// A todo with several tags counts fully towards each of them.
+export function buildTimeReport(
+    entries: TimeEntry[],
+    timer: ActiveTimer | null,
+    todos: Todo[],
+    categories: Category[],
+    from: number,
+    to: number,
+    now = Date.now()
+): TimeReport {
+    const allEntries = timer
+        ? [...entries, { id: 'active', todoId: timer.todoId, start: timer.start, end: now, duration: now - timer.start }]
+        : entries;
+
+    const byCategory = new Map<string, number>();
+    const byDay = new Map<number, number>();
+    let total = 0;
+
+    for (const entry of allEntries) {
+        const start = Math.max(entry.start, from);
+        const end = Math.min(entry.end, to);
+        if (end <= start) continue;
+
+        const todo = todos.find(t => t.id === entry.todoId);
+        const tagIds = todo ? getTodoCategories(todo, categories).map(c => c.id) : [];
+        for (const key of tagIds.length > 0 ? tagIds : ['']) {
+            byCategory.set(key, (byCategory.get(key) ?? 0) + end - start);
+        }
+        total += end - start;
+
+        for (let day = startOfDay(start); day < end;) {
+            const next = new Date(day);
+            next.setDate(next.getDate() + 1);
+            const slice = Math.min(end, next.getTime()) - Math.max(start, day);
+            byDay.set(day, (byDay.get(day) ?? 0) + slice);
+            day = next.getTime();
+        }
+    }
+
+    return {
+        total,
+        byCategory: [...byCategory.entries()]
+            .map(([categoryId, duration]) => {
+                const category = categories.find(c => c.id === categoryId);
+                return {
+                    categoryId,
+                    name: category?.name ?? 'Sans label',
+                    color: category?.color ?? '#9ca3af',
+                    duration
+                };
+            })
+            .sort((a, b) => b.duration - a.duration),
+        byDay: [...byDay.entries()]
+            .map(([day, duration]) => ({ day, duration }))
+            .sort((a, b) => a.day - b.day)
+    };
+}